@@ -0,0 +1,375 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { FocusAnalytics } from '@/lib/focus-analytics'
+import { ABANDON_REASONS, AbandonReason } from '@/lib/focus-metrics'
+import { ExportFormat } from '@/lib/session-export'
+
+const RANGES = [4, 12, 26, 52]
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60)
+  const rest = Math.round(minutes % 60)
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
+
+const formatHour = (hour: number) =>
+  `${hour % 12 === 0 ? 12 : hour % 12}${hour < 12 ? 'am' : 'pm'}`
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' })
+
+export default function AnalyticsPage() {
+  const router = useRouter()
+  const [weeks, setWeeks] = useState(12)
+  const [analytics, setAnalytics] = useState<FocusAnalytics | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isDemo, setIsDemo] = useState(false)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv')
+  const [exportFrom, setExportFrom] = useState('')
+  const [exportTo, setExportTo] = useState('')
+
+  useEffect(() => {
+    fetchAnalytics(weeks)
+  }, [weeks])
+
+  const fetchAnalytics = async (weeks: number) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/analytics?weeks=${weeks}`)
+      if (response.status === 401) {
+        setError('Sign in to see your analytics.')
+        return
+      }
+      if (!response.ok) {
+        throw new Error(`Analytics failed with status ${response.status}`)
+      }
+
+      const data = await response.json()
+      setIsDemo(data.status === 'demo')
+      setAnalytics(data)
+    } catch (error) {
+      console.error('Failed to load analytics:', error)
+      setError('Could not load your analytics.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const change = analytics?.weekOverWeek.change ?? null
+
+  const exportParams = new URLSearchParams({ format: exportFormat })
+  if (exportFrom) exportParams.set('from', exportFrom)
+  if (exportTo) exportParams.set('to', exportTo)
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-8">
+      <div className="max-w-4xl w-full">
+        <button
+          onClick={() => router.push('/')}
+          className="mb-8 text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
+        >
+          ← Back to Home
+        </button>
+
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8">
+          <h1 className="text-3xl font-bold text-center mb-6">
+            📊 Focus Analytics
+          </h1>
+
+          <div className="flex justify-center gap-2 mb-8">
+            {RANGES.map((range) => (
+              <button
+                key={range}
+                onClick={() => setWeeks(range)}
+                className={`py-1 px-3 rounded-lg text-sm transition-colors ${
+                  weeks === range
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {range} weeks
+              </button>
+            ))}
+          </div>
+
+          {isLoading && (
+            <div className="text-center text-xl py-16 animate-pulse">Loading...</div>
+          )}
+
+          {!isLoading && error && (
+            <div className="text-center py-16">
+              <div className="text-gray-600 dark:text-gray-400 mb-4">{error}</div>
+              <button
+                onClick={() => fetchAnalytics(weeks)}
+                className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-6 rounded-lg transition-colors"
+              >
+                Try again
+              </button>
+            </div>
+          )}
+
+          {!isLoading && !error && analytics && (
+            <>
+              {isDemo && (
+                <div className="mb-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                  Demo mode - sample numbers, not your real focus time
+                </div>
+              )}
+
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-blue-500">
+                    {formatMinutes(analytics.totalMinutes)}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    Focused ({analytics.totalSessions} sessions)
+                  </div>
+                </div>
+
+                <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-purple-500">
+                    {analytics.averageSessionMinutes === null ? '—' : formatMinutes(analytics.averageSessionMinutes)}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    Average Session
+                  </div>
+                </div>
+
+                <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-green-500">
+                    {analytics.completion.completionRate === null
+                      ? '—'
+                      : `${Math.round(analytics.completion.completionRate * 100)}%`}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    Completed ({analytics.completion.abandoned} abandoned)
+                  </div>
+                </div>
+
+                <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
+                  <div className={`text-2xl font-bold ${change === null ? 'text-gray-500' : change >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                    {change === null ? '—' : `${change >= 0 ? '▲' : '▼'} ${Math.abs(Math.round(change * 100))}%`}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    {formatMinutes(analytics.weekOverWeek.thisWeek)} this week vs {formatMinutes(analytics.weekOverWeek.lastWeek)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Per day */}
+              <Section title="Focus per day">
+                <BarChart
+                  bars={analytics.daily.map((day) => ({
+                    key: day.period,
+                    value: day.minutes,
+                    title: `${formatDay(day.period)}: ${formatMinutes(day.minutes)}, ${day.sessions} sessions`
+                  }))}
+                />
+                <div className="flex justify-between text-xs text-gray-500 mt-1">
+                  <span>{formatDay(analytics.start)}</span>
+                  <span>{formatDay(analytics.end)}</span>
+                </div>
+              </Section>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Per week */}
+                <Section title="Focus per week">
+                  <PeriodTable
+                    rows={analytics.weekly.slice().reverse().map((week) => ({
+                      label: `Week of ${formatDay(week.period)}`,
+                      minutes: week.minutes,
+                      sessions: week.sessions
+                    }))}
+                  />
+                </Section>
+
+                {/* Per month */}
+                <Section title="Focus per month">
+                  <PeriodTable
+                    rows={analytics.monthly.slice().reverse().map((month) => ({
+                      label: formatMonth(month.period),
+                      minutes: month.minutes,
+                      sessions: month.sessions
+                    }))}
+                  />
+                </Section>
+
+                {/* Time of day */}
+                <Section
+                  title="Time of day"
+                  note={analytics.bestHour === null ? undefined : `Most productive at ${formatHour(analytics.bestHour)}`}
+                >
+                  <BarChart
+                    bars={analytics.byHour.map((hour, index) => ({
+                      key: String(index),
+                      value: hour.minutes,
+                      title: `${formatHour(index)}: ${formatMinutes(hour.minutes)}`,
+                      highlight: index === analytics.bestHour
+                    }))}
+                  />
+                  <div className="flex justify-between text-xs text-gray-500 mt-1">
+                    <span>12am</span>
+                    <span>12pm</span>
+                    <span>11pm</span>
+                  </div>
+                </Section>
+
+                {/* Weekday */}
+                <Section
+                  title="Day of week"
+                  note={analytics.bestWeekday === null ? undefined : `Best day: ${WEEKDAYS[analytics.bestWeekday]}`}
+                >
+                  <BarChart
+                    bars={analytics.byWeekday.map((weekday, index) => ({
+                      key: WEEKDAYS[index],
+                      value: weekday.minutes,
+                      title: `${WEEKDAYS[index]}: ${formatMinutes(weekday.minutes)}`,
+                      highlight: index === analytics.bestWeekday
+                    }))}
+                  />
+                  <div className="flex justify-between text-xs text-gray-500 mt-1">
+                    {WEEKDAYS.map((weekday) => <span key={weekday}>{weekday}</span>)}
+                  </div>
+                </Section>
+              </div>
+
+              {/* Abandoned sessions */}
+              {analytics.completion.abandoned > 0 && (
+                <Section title="Why sessions were abandoned">
+                  <div className="space-y-1 text-sm">
+                    {(Object.entries(analytics.completion.abandonReasons) as [AbandonReason, number][])
+                      .sort((a, b) => b[1] - a[1])
+                      .map(([reason, count]) => (
+                        <div key={reason} className="flex justify-between">
+                          <span>{ABANDON_REASONS[reason]}</span>
+                          <span className="text-gray-500">{count}</span>
+                        </div>
+                      ))}
+                  </div>
+                </Section>
+              )}
+
+              {/* Export */}
+              <Section title="Export sessions">
+                <div className="flex flex-wrap items-end gap-3 text-sm">
+                  <label className="flex flex-col gap-1">
+                    <span className="text-gray-600 dark:text-gray-400">Format</span>
+                    <select
+                      value={exportFormat}
+                      onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                      className="p-2 rounded-lg border dark:bg-gray-700 dark:border-gray-600"
+                    >
+                      <option value="csv">CSV (spreadsheets)</option>
+                      <option value="json">JSON</option>
+                      <option value="ics">iCalendar (.ics)</option>
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span className="text-gray-600 dark:text-gray-400">From</span>
+                    <input
+                      type="date"
+                      value={exportFrom}
+                      max={exportTo || undefined}
+                      onChange={(e) => setExportFrom(e.target.value)}
+                      className="p-2 rounded-lg border dark:bg-gray-700 dark:border-gray-600"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span className="text-gray-600 dark:text-gray-400">To</span>
+                    <input
+                      type="date"
+                      value={exportTo}
+                      min={exportFrom || undefined}
+                      onChange={(e) => setExportTo(e.target.value)}
+                      className="p-2 rounded-lg border dark:bg-gray-700 dark:border-gray-600"
+                    />
+                  </label>
+                  <a
+                    href={`/api/export?${exportParams}`}
+                    className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+                  >
+                    Download
+                  </a>
+                </div>
+                <div className="text-xs text-gray-500 mt-2">
+                  Leave the dates empty to export everything.
+                </div>
+                <button
+                  onClick={() => router.push('/import')}
+                  className="mt-2 text-sm text-blue-500 hover:underline"
+                >
+                  Switching from another app? Import your history →
+                </button>
+              </Section>
+
+              <div className="text-center text-xs text-gray-500">
+                Days and hours are in {analytics.timezone}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
+
+function Section({ title, note, children }: { title: string; note?: string; children: React.ReactNode }) {
+  return (
+    <div className="mb-8">
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="text-xl font-semibold">{title}</h2>
+        {note && <span className="text-sm text-gray-500">{note}</span>}
+      </div>
+      {children}
+    </div>
+  )
+}
+
+interface Bar {
+  key: string
+  value: number
+  title: string
+  highlight?: boolean
+}
+
+function BarChart({ bars }: { bars: Bar[] }) {
+  const max = Math.max(1, ...bars.map((bar) => bar.value))
+  return (
+    <div className="flex items-end gap-px h-32">
+      {bars.map((bar) => (
+        <div key={bar.key} title={bar.title} className="flex-1 h-full flex items-end">
+          <div
+            className={`w-full rounded-t ${bar.highlight ? 'bg-green-500' : 'bg-blue-500'}`}
+            style={{ height: `${(bar.value / max) * 100}%` }}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function PeriodTable({ rows }: { rows: { label: string; minutes: number; sessions: number }[] }) {
+  return (
+    <div className="max-h-64 overflow-y-auto text-sm">
+      {rows.map((row) => (
+        <div key={row.label} className="flex justify-between py-1 border-b border-gray-100 dark:border-gray-700">
+          <span>{row.label}</span>
+          <span className="text-gray-500">
+            {formatMinutes(row.minutes)} · {row.sessions}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
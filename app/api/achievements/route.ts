@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { EMPTY_STATS, describeAchievements, getAchievements } from '@/lib/achievements';
+
+// Badge gallery for the Streaks page
+export async function GET() {
+  try {
+    // Return demo badges if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      const unlockedAt = new Date().toISOString();
+      return NextResponse.json({
+        status: 'demo',
+        achievements: describeAchievements(
+          { ...EMPTY_STATS, totalSessions: 156, totalMinutes: 3900, longestSessionMinutes: 50, earlySessions: 4, maxTagMinutes: 1200, longestStreak: 14 },
+          new Map([
+            ['first_focus', unlockedAt],
+            ['deep_diver', unlockedAt],
+            ['week_streak', unlockedAt],
+            ['centurion', unlockedAt],
+            ['ten_hours', unlockedAt]
+          ])
+        ),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      achievements: await getAchievements(supabase, session.user.id)
+    });
+
+  } catch (error) {
+    console.error('Achievements error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
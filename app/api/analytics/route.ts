@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import {
+  DEFAULT_WEEKS,
+  MAX_WEEKS,
+  buildFocusAnalytics,
+  getAnalyticsRange,
+  loadFocusAnalytics
+} from '@/lib/focus-analytics';
+import { FocusSession } from '@/lib/focus-calendar';
+import { getCompletionStats } from '@/lib/focus-metrics';
+import { getUserTimezone } from '@/lib/streaks';
+import { DEFAULT_TIMEZONE, addDays, dayDiff, getDayStart, getLocalDay } from '@/lib/timezones';
+
+// Focus analytics over the last `weeks` weeks (default 12, 2-52)
+export async function GET(request: NextRequest) {
+  try {
+    const weeksParam = request.nextUrl.searchParams.get('weeks');
+    const weeks = weeksParam === null ? DEFAULT_WEEKS : Number(weeksParam);
+    if (!Number.isInteger(weeks) || weeks < 2 || weeks > MAX_WEEKS) {
+      return NextResponse.json({ error: `Weeks must be between 2 and ${MAX_WEEKS}` }, { status: 400 });
+    }
+
+    // Return sample analytics if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      const range = getAnalyticsRange(getLocalDay(Date.now(), DEFAULT_TIMEZONE), weeks);
+      const sessions = getDemoSessions(range.start, range.end);
+      return NextResponse.json({
+        status: 'demo',
+        ...buildFocusAnalytics(
+          sessions,
+          getCompletionStats([
+            ...sessions.map(() => ({ completed: true, abandoned_at: null })),
+            ...sessions.filter((_, i) => i % 6 === 0).map(() => ({
+              completed: false,
+              abandoned_at: new Date().toISOString(),
+              abandon_reason: 'distracted'
+            }))
+          ], Math.floor(sessions.length / 3)),
+          range,
+          DEFAULT_TIMEZONE
+        ),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const timezone = await getUserTimezone(supabase, userId);
+    const range = getAnalyticsRange(getLocalDay(Date.now(), timezone), weeks);
+
+    return NextResponse.json(await loadFocusAnalytics(supabase, userId, timezone, range));
+
+  } catch (error) {
+    console.error('Analytics error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Deterministic pseudo-random sessions so the demo dashboard isn't empty
+function getDemoSessions(start: string, end: string): FocusSession[] {
+  const sessions: FocusSession[] = [];
+  for (let i = 0; i <= dayDiff(start, end); i++) {
+    const day = addDays(start, i);
+    const seed = (Date.parse(day) / 86400000 * 2654435761) % 97;
+    if (seed < 30) continue;
+    for (let n = 0; n < 1 + (seed % 4); n++) {
+      const startTime = getDayStart(day, DEFAULT_TIMEZONE) + (8 + ((seed + n * 3) % 10)) * 3600000;
+      const minutes = n % 2 === 0 ? 25 : 50;
+      sessions.push({
+        id: `${day}-${n}`,
+        day,
+        startTime: new Date(startTime).toISOString(),
+        endTime: new Date(startTime + minutes * 60000).toISOString(),
+        minutes,
+        task: null,
+        project: null
+      });
+    }
+  }
+  return sessions;
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { StreakRebuild, rebuildStreak } from '@/lib/streaks';
+import { syncAchievements } from '@/lib/achievements';
+
+// Users fetched per page when rebuilding everyone
+const PAGE_SIZE = 500;
+
+// Initialize Supabase only if configured; the job works across users, so it
+// needs the service key rather than a user session
+const supabase = process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY
+  ? createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    )
+  : null;
+
+// Nightly streak rebuild from validated sessions (see vercel.json), followed
+// by an achievement backfill so badges catch up with the rebuilt history.
+// Pass `?userId=` to rebuild a single user.
+export async function GET(request: NextRequest) {
+  // Vercel Cron sends `Authorization: Bearer $CRON_SECRET`
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: 'Cron not configured' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Supabase not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const userId = request.nextUrl.searchParams.get('userId');
+    const results: StreakRebuild[] = [];
+    let badgesUnlocked = 0;
+
+    const rebuild = async (id: string) => {
+      results.push(await rebuildStreak(supabase, id));
+      badgesUnlocked += (await syncAchievements(supabase, id)).unlocked.length;
+    };
+
+    if (userId) {
+      await rebuild(userId);
+    } else {
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data: users, error } = await supabase
+          .from('users')
+          .select('id')
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+        if (!users || users.length === 0) break;
+
+        // One at a time keeps the load on the database predictable
+        for (const user of users) {
+          await rebuild(user.id);
+        }
+        if (users.length < PAGE_SIZE) break;
+      }
+    }
+
+    const changed = results.filter((result) => result.changed);
+
+    return NextResponse.json({
+      processed: results.length,
+      changedCount: changed.length,
+      badgesUnlocked,
+      changed: changed.map(({ userId, before, after, freezesAdded, freezesRemoved }) => ({
+        userId,
+        before,
+        after,
+        freezesAdded,
+        freezesRemoved
+      }))
+    });
+
+  } catch (error) {
+    console.error('Streak rebuild error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
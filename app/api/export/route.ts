@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  isExportFormat,
+  loadSessionPage,
+  streamSessionExport
+} from '@/lib/session-export';
+import { getUserTimezone } from '@/lib/streaks';
+import { DEFAULT_TIMEZONE, addDays, getDayStart, getLocalDay } from '@/lib/timezones';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDay = (value: string | null) =>
+  value === null || (DAY_PATTERN.test(value) && !isNaN(Date.parse(value)));
+
+// Downloads the user's sessions as `format` (csv, json or ics). `from` and `to`
+// are inclusive local days; either can be left out.
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const format = params.get('format') || 'csv';
+    const from = params.get('from');
+    const to = params.get('to');
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: 'Format must be csv, json or ics' }, { status: 400 });
+    }
+    if (!isDay(from) || !isDay(to) || (from && to && from > to)) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    // Export sample sessions if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      const today = getLocalDay(Date.now(), DEFAULT_TIMEZONE);
+      return exportResponse(format, today, streamSessionExport(format, async () => getDemoRows(today)));
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const timezone = await getUserTimezone(supabase, userId);
+    const range = {
+      from: from ? new Date(getDayStart(from, timezone)).toISOString() : null,
+      to: to ? new Date(getDayStart(addDays(to, 1), timezone)).toISOString() : null
+    };
+
+    return exportResponse(
+      format,
+      getLocalDay(Date.now(), timezone),
+      streamSessionExport(format, loadSessionPage(supabase, userId, range))
+    );
+
+  } catch (error) {
+    console.error('Export error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+function exportResponse(format: ExportFormat, today: string, body: ReadableStream<Uint8Array>) {
+  const { contentType, extension } = EXPORT_FORMATS[format];
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="focus-sessions-${today}.${extension}"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
+
+function getDemoRows(today: string) {
+  return [1, 2, 3].map((daysAgo) => {
+    const start = getDayStart(addDays(today, -daysAgo), DEFAULT_TIMEZONE) + 9 * 3600000;
+    return {
+      id: `00000000-0000-0000-0000-00000000000${daysAgo}`,
+      start_time: new Date(start).toISOString(),
+      end_time: new Date(start + 25 * 60000).toISOString(),
+      duration: 25 * 60,
+      completed: true,
+      validated: true,
+      suspicious: false,
+      total_paused: 0,
+      task: 'Write report',
+      project: 'demo',
+      timezone: DEFAULT_TIMEZONE
+    };
+  });
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import {
+  ImportPreview,
+  dropExistingSessions,
+  importSessions,
+  isImportScope,
+  isImportSource,
+  parseImport,
+  validateMapping
+} from '@/lib/session-import';
+import { getUserTimezone } from '@/lib/streaks';
+import { DEFAULT_TIMEZONE } from '@/lib/timezones';
+
+// Uploads are read as text in the browser and posted as JSON
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+// Imports sessions from another timer app's export. With `dryRun` nothing is
+// stored and the response previews what would be imported.
+export async function POST(request: NextRequest) {
+  try {
+    const { source, content, mapping = null, scope = 'analytics', dryRun = false } = await request.json();
+
+    if (!isImportSource(source)) {
+      return NextResponse.json({ error: 'Unknown import source' }, { status: 400 });
+    }
+    if (typeof content !== 'string' || content.trim() === '') {
+      return NextResponse.json({ error: 'The file is empty' }, { status: 400 });
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json({ error: 'The file is larger than 5 MB' }, { status: 413 });
+    }
+    if (!isImportScope(scope)) {
+      return NextResponse.json({ error: 'Scope must be analytics or streaks' }, { status: 400 });
+    }
+    if (source === 'generic') {
+      const mappingError = validateMapping(mapping);
+      if (mappingError) {
+        return NextResponse.json({ error: mappingError }, { status: 400 });
+      }
+    }
+
+    const parse = (timezone: string): ImportPreview | null => {
+      try {
+        return parseImport(content, source, source === 'generic' ? mapping : null, timezone);
+      } catch {
+        return null;
+      }
+    };
+
+    // Preview only if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      const preview = parse(DEFAULT_TIMEZONE);
+      if (!preview) {
+        return NextResponse.json({ error: 'Could not read the file' }, { status: 400 });
+      }
+      return NextResponse.json({
+        status: 'demo',
+        ...summarize(preview),
+        imported: 0,
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const timezone = await getUserTimezone(supabase, userId);
+
+    const parsed = parse(timezone);
+    if (!parsed) {
+      return NextResponse.json({ error: 'Could not read the file' }, { status: 400 });
+    }
+    const preview = await dropExistingSessions(supabase, userId, parsed);
+
+    if (dryRun || preview.sessions.length === 0) {
+      return NextResponse.json({ ...summarize(preview), imported: 0 });
+    }
+
+    const importId = await importSessions(supabase, userId, preview.sessions, source, scope, timezone);
+
+    return NextResponse.json({
+      ...summarize(preview),
+      imported: preview.sessions.length,
+      importId,
+      scope
+    });
+
+  } catch (error) {
+    console.error('Import error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Counts plus the first and last session, without echoing every row back
+function summarize(preview: ImportPreview) {
+  const { sessions, ...counts } = preview;
+  return {
+    ...counts,
+    ready: sessions.length,
+    first: sessions[0] ? new Date(sessions[0].start).toISOString() : null,
+    last: sessions.length > 0 ? new Date(sessions[sessions.length - 1].start).toISOString() : null,
+    minutes: Math.round(sessions.reduce((sum, session) => sum + session.end - session.start, 0) / 60000)
+  };
+}
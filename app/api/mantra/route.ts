@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
-import OpenAI from 'openai';
 import { Redis } from '@upstash/redis';
-
-// Initialize OpenAI only if API key exists
-const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-  : null;
+import { getUserTimezone } from '@/lib/streaks';
+import { getLocalDay } from '@/lib/timezones';
+import { loadUserProfile } from '@/lib/user-profile';
+import {
+  generateMantra,
+  generateQuest,
+  getDefaultQuest,
+  getFallbackMantra,
+  loadRecentMantras
+} from '@/lib/inspiration';
 
 // Initialize Redis only if credentials exist
 const redis = process.env.REDIS_URL && process.env.REDIS_TOKEN
@@ -19,22 +21,11 @@ const redis = process.env.REDIS_URL && process.env.REDIS_TOKEN
     })
   : null;
 
-// Fallback mantras for when API fails
-const FALLBACK_MANTRAS = [
-  "Focus on progress, not perfection.",
-  "Every minute of focus builds your future.",
-  "Discipline is choosing between what you want now and what you want most.",
-  "Your future self will thank you for not giving up.",
-  "Small steps daily lead to big changes yearly.",
-  "The pain of discipline weighs ounces, regret weighs tons.",
-  "Winners focus on winning, losers focus on winners.",
-  "Success is the sum of small efforts repeated daily.",
-  "Your only limit is your mind.",
-  "Dream it. Believe it. Build it."
-];
-
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
+  // Known once the user's timezone is read; the error fallback sends them too
+  let today: string | null = null;
+  let timezone: string | null = null;
 
   try {
     // Check authentication
@@ -46,7 +37,9 @@ export async function GET(request: NextRequest) {
     }
 
     const userId = session.user.id;
-    const today = new Date().toISOString().split('T')[0];
+    // Mantra days follow the user's timezone, like quests and streaks
+    timezone = await getUserTimezone(supabase, userId);
+    today = getLocalDay(Date.now(), timezone);
     const cacheKey = `mantra:${userId}:${today}`;
 
     // Check Redis cache first (if Redis is configured)
@@ -55,102 +48,69 @@ export async function GET(request: NextRequest) {
       if (cached) {
         return NextResponse.json({
           mantra: cached,
+          date: today,
+          timezone,
           cached: true,
           responseTime: Date.now() - startTime
         });
       }
     }
 
-    // Get user's preferences for personalization
-    const { data: profile } = await supabase
-      .from('user_profiles')
-      .select('focus_area, motivation_style')
+    // Today's mantra is stored once; later loads serve that row
+    const { data: stored } = await supabase
+      .from('daily_mantras')
+      .select('mantra, provider')
       .eq('user_id', userId)
-      .single();
+      .eq('date', today)
+      .maybeSingle();
 
-    const focusArea = profile?.focus_area || 'general productivity';
-    const motivationStyle = profile?.motivation_style || 'encouraging';
-
-    // Generate mantra with GPT-4 (if OpenAI is configured)
-    try {
-      if (!openai) {
-        throw new Error('OpenAI not configured');
-      }
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a motivational coach. Generate a single, powerful motivational mantra.
-            Requirements:
-            - Maximum 80 characters
-            - Focus area: ${focusArea}
-            - Style: ${motivationStyle}
-            - No quotes or attribution
-            - Action-oriented and personal
-            - Fresh and unique, not cliché`
-          },
-          {
-            role: 'user',
-            content: 'Generate a motivational mantra for today.'
-          }
-        ],
-        max_tokens: 30,
-        temperature: 0.9,
-        presence_penalty: 0.6, // Encourage unique responses
-      });
-
-      const mantra = completion.choices[0].message.content?.trim() || getFallbackMantra();
-
-      // Validate length
-      const finalMantra = mantra.length <= 80 ? mantra : mantra.substring(0, 77) + '...';
-
-      // Cache for 24 hours (if Redis is configured)
+    if (stored) {
       if (redis) {
-        await redis.set(cacheKey, finalMantra, { ex: 86400 });
+        await redis.set(cacheKey, stored.mantra, { ex: 86400 });
       }
-
-      // Store in database for analytics
-      await supabase
-        .from('daily_mantras')
-        .insert({
-          user_id: userId,
-          mantra: finalMantra,
-          date: today,
-          generated_at: new Date().toISOString()
-        });
-
       return NextResponse.json({
-        mantra: finalMantra,
-        cached: false,
+        mantra: stored.mantra,
+        date: today,
+        timezone,
+        cached: true,
+        provider: stored.provider,
         responseTime: Date.now() - startTime
       });
+    }
 
-    } catch (openaiError) {
-      console.error('OpenAI API error:', openaiError);
+    // Get user's preferences for personalization
+    const { focusArea, motivationStyle } = await loadUserProfile(supabase, userId);
 
-      // Use fallback mantra
-      const fallbackMantra = getFallbackMantra();
+    // Generate mantra with the configured text provider, avoiding recent ones
+    const recent = await loadRecentMantras(supabase, userId);
+    const result = await generateMantra({ focusArea, motivationStyle }, userId, today, recent);
 
-      // Still cache the fallback (if Redis is configured)
-      if (redis) {
-        await redis.set(cacheKey, fallbackMantra, { ex: 86400 });
-      }
+    // Store every mantra served, fallbacks included, so later days can avoid it
+    const mantra = await storeMantra(supabase, userId, today, result.text, result.provider);
 
-      return NextResponse.json({
-        mantra: fallbackMantra,
-        cached: false,
-        fallback: true,
-        responseTime: Date.now() - startTime
-      });
+    // Cache for 24 hours, fallbacks included (if Redis is configured)
+    if (redis) {
+      await redis.set(cacheKey, mantra, { ex: 86400 });
     }
 
+    return NextResponse.json({
+      mantra: mantra,
+      date: today,
+      timezone,
+      cached: false,
+      fallback: result.fallback,
+      provider: result.provider,
+      responseTime: Date.now() - startTime
+    });
+
   } catch (error) {
     console.error('Mantra generation error:', error);
 
     // Return fallback without caching on system error
     return NextResponse.json({
       mantra: getFallbackMantra(),
+      date: today,
+      timezone,
       error: true,
       fallback: true,
       responseTime: Date.now() - startTime
@@ -171,74 +131,40 @@ export async function POST(request: NextRequest) {
     }
 
     const userId = session.user.id;
-    const today = new Date().toISOString().split('T')[0];
-    const cacheKey = `quest:${userId}:${today}`;
+    // Quest days follow the user's timezone, like streaks, so completions line up
+    const today = getLocalDay(Date.now(), await getUserTimezone(supabase, userId));
 
-    // Check cache (if Redis is configured)
-    if (redis) {
-      const cached = await redis.get(cacheKey);
-      if (cached) {
-        return NextResponse.json({
-          quest: cached,
-          cached: true,
-          responseTime: Date.now() - startTime
-        });
-      }
-    }
+    // Today's quest is stored once; completion is tracked on that row
+    const { data: stored } = await supabase
+      .from('daily_quests')
+      .select('quest, completed')
+      .eq('user_id', userId)
+      .eq('date', today)
+      .maybeSingle();
 
-    // Generate quest with GPT-4 (if OpenAI is configured)
-    if (!openai) {
-      const quest = getDefaultQuest();
+    if (stored) {
       return NextResponse.json({
-        quest: quest,
-        cached: false,
-        fallback: true,
+        quest: stored.quest,
+        date: today,
+        completed: !!stored.completed,
+        cached: true,
         responseTime: Date.now() - startTime
       });
     }
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
-      messages: [
-        {
-          role: 'system',
-          content: `Generate a simple daily challenge for personal growth.
-          Requirements:
-          - One specific, actionable task
-          - Can be completed in 5-30 minutes
-          - Focus on: finance, mindset, health, or productivity
-          - Maximum 100 characters
-          - Start with a verb (Write, Read, Complete, etc.)`
-        },
-        {
-          role: 'user',
-          content: 'Generate today\'s daily quest.'
-        }
-      ],
-      max_tokens: 40,
-      temperature: 0.8,
-    });
-
-    const quest = completion.choices[0].message.content?.trim() || getDefaultQuest();
-
-    // Cache for 24 hours (if Redis is configured)
-    if (redis) {
-      await redis.set(cacheKey, quest, { ex: 86400 });
-    }
+    // Generate quest with the configured text provider
+    const result = await generateQuest(`${userId}:${today}`);
 
     // Store in database
-    await supabase
-      .from('daily_quests')
-      .insert({
-        user_id: userId,
-        quest: quest,
-        date: today,
-        completed: false
-      });
+    const quest = await storeQuest(supabase, userId, today, result.text);
 
     return NextResponse.json({
       quest: quest,
+      date: today,
+      completed: false,
       cached: false,
+      fallback: result.fallback,
+      provider: result.provider,
       responseTime: Date.now() - startTime
     });
 
@@ -253,20 +179,63 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function getFallbackMantra(): string {
-  return FALLBACK_MANTRAS[Math.floor(Math.random() * FALLBACK_MANTRAS.length)];
+// Same as storeQuest: if another request stored today's mantra first, that one
+// is the day's mantra
+async function storeMantra(
+  supabase: any,
+  userId: string,
+  date: string,
+  mantra: string,
+  provider: string
+): Promise<string> {
+  const { error } = await supabase
+    .from('daily_mantras')
+    .upsert({
+      user_id: userId,
+      mantra: mantra,
+      provider: provider,
+      date: date,
+      generated_at: new Date().toISOString()
+    }, { onConflict: 'user_id,date', ignoreDuplicates: true });
+
+  if (error) {
+    console.error('Mantra insert failed:', error);
+    return mantra;
+  }
+
+  const { data: stored } = await supabase
+    .from('daily_mantras')
+    .select('mantra')
+    .eq('user_id', userId)
+    .eq('date', date)
+    .maybeSingle();
+
+  return stored?.mantra || mantra;
 }
 
-function getDefaultQuest(): string {
-  const quests = [
-    "Write 3 things you're grateful for today",
-    "Read 10 pages of a personal development book",
-    "Complete a 10-minute meditation session",
-    "Review and update your monthly budget",
-    "Reach out to someone you haven't talked to recently",
-    "Do 25 pushups or a 5-minute workout",
-    "Declutter one area of your workspace",
-    "Learn one new professional skill for 15 minutes"
-  ];
-  return quests[Math.floor(Math.random() * quests.length)];
-}
\ No newline at end of file
+// Another request may have stored today's quest first; whichever won is the
+// day's quest, and that's the one returned
+async function storeQuest(supabase: any, userId: string, date: string, quest: string): Promise<string> {
+  const { error } = await supabase
+    .from('daily_quests')
+    .upsert({
+      user_id: userId,
+      quest: quest,
+      date: date,
+      completed: false
+    }, { onConflict: 'user_id,date', ignoreDuplicates: true });
+
+  if (error) {
+    console.error('Quest insert failed:', error);
+    return quest;
+  }
+
+  const { data: stored } = await supabase
+    .from('daily_quests')
+    .select('quest')
+    .eq('user_id', userId)
+    .eq('date', date)
+    .maybeSingle();
+
+  return stored?.quest || quest;
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import {
+  DEFAULT_PROFILE,
+  ProfileUpdate,
+  loadUserProfile,
+  updateUserProfile,
+  validateProfileUpdate
+} from '@/lib/user-profile';
+
+// The signed-in user's profile and preferences for the Settings page
+export async function GET(request: NextRequest) {
+  try {
+    // Return the defaults if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        profile: DEFAULT_PROFILE,
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ profile: await loadUserProfile(supabase, session.user.id) });
+
+  } catch (error) {
+    console.error('Profile error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Updates any subset of the profile fields
+export async function PATCH(request: NextRequest) {
+  try {
+    const update: ProfileUpdate = await request.json();
+
+    const invalid = validateProfileUpdate(update);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        profile: {
+          ...DEFAULT_PROFILE,
+          ...update,
+          notifications: { ...DEFAULT_PROFILE.notifications, ...update.notifications }
+        },
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+      const profile = await updateUserProfile(supabase, session.user.id, update);
+      return NextResponse.json({ profile });
+    } catch (error) {
+      console.error('Profile update failed:', error);
+      return NextResponse.json({ error: 'Failed to update profile' }, { status: 500 });
+    }
+
+  } catch (error) {
+    console.error('Profile update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
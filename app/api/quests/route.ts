@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import {
+  DEFAULT_HISTORY_DAYS,
+  MAX_HISTORY_DAYS,
+  getQuestStreak,
+  loadQuestHistory,
+  loadQuestStreak,
+  setQuestCompleted
+} from '@/lib/quests';
+import { getUserTimezone } from '@/lib/streaks';
+import { DEFAULT_TIMEZONE, addDays, getLocalDay } from '@/lib/timezones';
+
+// Quest history for the last `days` days (default 30) and the quest streak
+export async function GET(request: NextRequest) {
+  try {
+    const daysParam = request.nextUrl.searchParams.get('days');
+    const days = daysParam === null ? DEFAULT_HISTORY_DAYS : Number(daysParam);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_DAYS) {
+      return NextResponse.json({ error: `Days must be between 1 and ${MAX_HISTORY_DAYS}` }, { status: 400 });
+    }
+
+    // Return sample history if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      const today = getLocalDay(Date.now(), DEFAULT_TIMEZONE);
+      const history = [1, 2, 3, 5].map((daysAgo) => ({
+        date: addDays(today, -daysAgo),
+        quest: 'Write 3 things you\'re grateful for today',
+        completed: daysAgo !== 5,
+        completedAt: null
+      }));
+      return NextResponse.json({
+        status: 'demo',
+        today,
+        timezone: DEFAULT_TIMEZONE,
+        history,
+        ...getQuestStreak(history.filter((day) => day.completed).map((day) => day.date), today),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const timezone = await getUserTimezone(supabase, userId);
+    const today = getLocalDay(Date.now(), timezone);
+
+    return NextResponse.json({
+      today,
+      timezone,
+      history: await loadQuestHistory(supabase, userId, today, days),
+      ...await loadQuestStreak(supabase, userId, today)
+    });
+
+  } catch (error) {
+    console.error('Quest history error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Marks today's quest complete or not complete
+export async function PATCH(request: NextRequest) {
+  try {
+    const { completed } = await request.json();
+
+    if (typeof completed !== 'boolean') {
+      return NextResponse.json({ error: 'completed must be true or false' }, { status: 400 });
+    }
+
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        date: getLocalDay(Date.now(), DEFAULT_TIMEZONE),
+        completed,
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const today = getLocalDay(Date.now(), await getUserTimezone(supabase, userId));
+
+    // Today's quest is stored when /api/mantra serves it
+    const questDay = await setQuestCompleted(supabase, userId, today, completed);
+    if (!questDay) {
+      return NextResponse.json({ error: 'No quest for today yet' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...questDay,
+      ...await loadQuestStreak(supabase, userId, today)
+    });
+
+  } catch (error) {
+    console.error('Quest update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { loadFocusSessions } from '@/lib/focus-calendar';
+import { STREAK_SESSIONS_FILTER, getUserTimezone } from '@/lib/streaks';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validated sessions on one local day, for the heatmap's day details
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { day: string } }
+) {
+  try {
+    const { day } = params;
+    if (!DAY_PATTERN.test(day) || isNaN(Date.parse(day))) {
+      return NextResponse.json({ error: 'Invalid day' }, { status: 400 });
+    }
+
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        day,
+        sessions: [],
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const timezone = await getUserTimezone(supabase, userId);
+
+    return NextResponse.json({
+      day,
+      timezone,
+      sessions: await loadFocusSessions(supabase, userId, timezone, day, day, STREAK_SESSIONS_FILTER)
+    });
+
+  } catch (error) {
+    console.error('Focus day error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
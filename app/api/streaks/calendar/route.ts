@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { FocusDay, aggregateFocusDays, getCalendarRange, loadFocusSessions } from '@/lib/focus-calendar';
+import { STREAK_SESSIONS_FILTER, getUserTimezone } from '@/lib/streaks';
+import { DEFAULT_TIMEZONE, addDays, dayDiff, getLocalDay } from '@/lib/timezones';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Focus minutes per day for a year-long heatmap ending on `end` (default today)
+export async function GET(request: NextRequest) {
+  try {
+    const end = request.nextUrl.searchParams.get('end');
+    if (end !== null && (!DAY_PATTERN.test(end) || isNaN(Date.parse(end)))) {
+      return NextResponse.json({ error: 'Invalid end day' }, { status: 400 });
+    }
+
+    // Return a sample year if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      const today = getLocalDay(Date.now(), DEFAULT_TIMEZONE);
+      const range = getCalendarRange(end && end < today ? end : today);
+      return NextResponse.json({
+        status: 'demo',
+        timezone: DEFAULT_TIMEZONE,
+        today,
+        ...range,
+        days: getDemoDays(range.start, range.end),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const timezone = await getUserTimezone(supabase, userId);
+    const today = getLocalDay(Date.now(), timezone);
+    const range = getCalendarRange(end && end < today ? end : today);
+
+    const sessions = await loadFocusSessions(
+      supabase, userId, timezone, range.start, range.end, STREAK_SESSIONS_FILTER
+    );
+
+    return NextResponse.json({
+      timezone,
+      today,
+      ...range,
+      days: aggregateFocusDays(sessions)
+    });
+
+  } catch (error) {
+    console.error('Focus calendar error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Deterministic pseudo-random focus days so the demo heatmap isn't empty
+function getDemoDays(start: string, end: string): FocusDay[] {
+  const days: FocusDay[] = [];
+  for (let i = 0; i <= dayDiff(start, end); i++) {
+    const day = addDays(start, i);
+    const seed = (Date.parse(day) / 86400000 * 2654435761) % 97;
+    if (seed < 40) continue;
+    const sessions = 1 + (seed % 4);
+    days.push({ day, minutes: sessions * 25, sessions });
+  }
+  return days;
+}
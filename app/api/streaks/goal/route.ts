@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { DEFAULT_GOAL, getGoalProgress, validateGoal } from '@/lib/focus-goals';
+import { getTodayGoalProgress, getUserTimezone } from '@/lib/streaks';
+import { DEFAULT_TIMEZONE, getLocalDay } from '@/lib/timezones';
+
+// Today's progress toward the daily focus goal
+export async function GET(request: NextRequest) {
+  try {
+    // Return demo progress if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        goal: DEFAULT_GOAL,
+        progress: getGoalProgress(DEFAULT_GOAL, getLocalDay(Date.now(), DEFAULT_TIMEZONE), {
+          minutes: 0,
+          sessions: 0
+        }),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(await getTodayGoalProgress(supabase, session.user.id));
+
+  } catch (error) {
+    console.error('Goal progress error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Sets the daily goal. It applies from today, so past streak days keep the
+// goal they were earned under.
+export async function PATCH(request: NextRequest) {
+  try {
+    const goal = await request.json();
+
+    const invalid = validateGoal(goal);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        goal: { type: goal.type, target: goal.target },
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const today = getLocalDay(Date.now(), await getUserTimezone(supabase, userId));
+
+    // Changing it again the same day replaces today's entry
+    const { error: historyError } = await supabase
+      .from('daily_goals')
+      .upsert({
+        user_id: userId,
+        goal_type: goal.type,
+        goal_target: goal.target,
+        effective_from: today
+      }, { onConflict: 'user_id,effective_from' });
+
+    if (historyError) {
+      console.error('Goal history insert failed:', historyError);
+      return NextResponse.json({ error: 'Failed to update goal' }, { status: 500 });
+    }
+
+    const { error } = await supabase
+      .from('streaks')
+      .upsert({
+        user_id: userId,
+        goal_type: goal.type,
+        goal_target: goal.target
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Goal update failed:', error);
+      return NextResponse.json({ error: 'Failed to update goal' }, { status: 500 });
+    }
+
+    return NextResponse.json(await getTodayGoalProgress(supabase, userId));
+
+  } catch (error) {
+    console.error('Goal update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
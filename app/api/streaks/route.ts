@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getStreakSummary } from '@/lib/streaks';
+import { DEFAULT_GOAL, getGoalProgress } from '@/lib/focus-goals';
+import { DEFAULT_TIMEZONE, getLocalDay, isValidTimeZone } from '@/lib/timezones';
+
+// Streak and session counts for the Streaks page
+export async function GET(request: NextRequest) {
+  try {
+    // Return demo streaks if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        currentStreak: 7,
+        longestStreak: 14,
+        lastCompleted: new Date().toISOString().split('T')[0],
+        totalSessions: 156,
+        thisWeek: 5,
+        thisMonth: 22,
+        timezone: DEFAULT_TIMEZONE,
+        timezoneAuto: true,
+        freezesAvailable: 1,
+        maxFreezes: 1,
+        freezeEveryDays: 7,
+        recentFreezes: [],
+        goal: DEFAULT_GOAL,
+        today: getGoalProgress(DEFAULT_GOAL, getLocalDay(Date.now(), DEFAULT_TIMEZONE), {
+          minutes: 25,
+          sessions: 1
+        }),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(await getStreakSummary(supabase, session.user.id));
+
+  } catch (error) {
+    console.error('Streaks error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Sets the timezone streak days are counted in. With `auto`, later sessions
+// update it from the device the user focuses on.
+export async function PATCH(request: NextRequest) {
+  try {
+    const { timezone, auto = false } = await request.json();
+
+    if (!isValidTimeZone(timezone)) {
+      return NextResponse.json({ error: 'Invalid timezone' }, { status: 400 });
+    }
+
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        timezone,
+        timezoneAuto: !!auto,
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // The day already counted keeps the zone it was counted in, so switching
+    // zones can't count it again
+    const { error } = await supabase
+      .from('streaks')
+      .upsert({
+        user_id: session.user.id,
+        timezone,
+        timezone_auto: !!auto
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Timezone update failed:', error);
+      return NextResponse.json({ error: 'Failed to update timezone' }, { status: 500 });
+    }
+
+    return NextResponse.json({ timezone, timezoneAuto: !!auto });
+
+  } catch (error) {
+    console.error('Timezone update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
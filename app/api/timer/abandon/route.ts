@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import {
+  abandonSession,
+  completeTimer,
+  getSessionTimer,
+  isOwnedByOtherDevice
+} from '@/lib/timer-sessions';
+import { settleTimer } from '@/lib/timer-engine';
+import { isAbandonReason } from '@/lib/focus-metrics';
+
+// Ends a session early, keeping it for completion-rate stats
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, reason, note, deviceId } = await request.json();
+
+    if (!isAbandonReason(reason)) {
+      return NextResponse.json({ error: 'Invalid abandonment reason' }, { status: 400 });
+    }
+
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        serverTime: Date.now(),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const { data: timerSession, error } = await supabase
+      .from('timer_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !timerSession) {
+      return NextResponse.json({ error: 'Timer session not found' }, { status: 404 });
+    }
+
+    // Only the device that owns the session controls it
+    if (isOwnedByOtherDevice(timerSession, deviceId)) {
+      return NextResponse.json({
+        error: 'Session is active on another device',
+        ownerDeviceId: timerSession.device_id,
+        ownerDeviceName: timerSession.device_name
+      }, { status: 409 });
+    }
+
+    // Abandoning twice keeps the first answer
+    if (timerSession.abandoned_at) {
+      return NextResponse.json({
+        status: 'abandoned',
+        reason: timerSession.abandon_reason,
+        elapsed: timerSession.abandoned_elapsed,
+        serverTime: Date.now()
+      });
+    }
+
+    if (timerSession.completed) {
+      return NextResponse.json({ error: 'Session already completed' }, { status: 409 });
+    }
+
+    const now = Date.now();
+    const timer = settleTimer(getSessionTimer(timerSession), now);
+
+    // Too late to abandon: the planned end has already passed
+    if (timer.status === 'completed') {
+      await completeTimer(supabase, timerSession.id, userId, new Date(timer.endedAt!));
+      return NextResponse.json({ error: 'Session already completed' }, { status: 409 });
+    }
+
+    const elapsed = await abandonSession(supabase, timerSession, userId, reason, note, now);
+
+    return NextResponse.json({
+      status: 'abandoned',
+      reason,
+      elapsed,
+      serverTime: Date.now()
+    });
+
+  } catch (error) {
+    console.error('Timer abandon error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { describeSession, findActiveSession, getActiveElapsed } from '@/lib/timer-sessions';
+import { issueSessionToken } from '@/lib/session-tokens';
+
+// The user's active session, so every device can show the same countdown
+export async function GET(request: NextRequest) {
+  try {
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        activeSession: null,
+        serverTime: Date.now(),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const active = await findActiveSession(supabase, session.user.id);
+
+    // Only the owning device pulses; others mirror and must take over for a token
+    const deviceId = request.nextUrl.searchParams.get('deviceId');
+    const owned = !!active && (!active.device_id || active.device_id === deviceId);
+
+    return NextResponse.json({
+      activeSession: active ? await describeSession(supabase, active) : null,
+      userId: session.user.id,
+      // Lasts only as long as the session has left
+      token: owned
+        ? issueSessionToken(active.id, session.user.id, active.duration * 1000 - getActiveElapsed(active))
+        : null,
+      serverTime: Date.now()
+    });
+
+  } catch (error) {
+    console.error('Active session lookup error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { completeTimer, replaySession } from '@/lib/timer-sessions';
+import { TimerState, getPlannedEnd } from '@/lib/timer-engine';
+
+// Allowed disagreement between claimed and stored timestamps
+const TOLERANCE = 5000;
+
+// Completion endpoint for offline sessions (background sync)
+export async function POST(request: NextRequest) {
+  try {
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        serverTime: Date.now(),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+    const { userId, sessionId, startTime, endTime } = await request.json();
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session || session.user.id !== userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!sessionId || typeof startTime !== 'number' || typeof endTime !== 'number') {
+      return NextResponse.json({ error: 'Invalid completion payload' }, { status: 400 });
+    }
+
+    const { data: timerSession, error } = await supabase
+      .from('timer_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !timerSession) {
+      return NextResponse.json({ error: 'Timer session not found' }, { status: 404 });
+    }
+
+    // Retried syncs must not count the session twice
+    if (timerSession.completed) {
+      return NextResponse.json({
+        status: 'already_completed',
+        validated: !!timerSession.validated,
+        suspicious: !!timerSession.suspicious,
+        serverTime: Date.now()
+      });
+    }
+
+    // An abandoned session can't be completed later
+    if (timerSession.abandoned_at) {
+      return NextResponse.json({
+        status: 'rejected',
+        reason: 'abandoned',
+        serverTime: Date.now()
+      }, { status: 422 });
+    }
+
+    // The event log is the authority on when the session could have ended
+    const timer = await replaySession(supabase, timerSession);
+    // A bad claim is refused without touching the row, so the session can
+    // still be completed by a valid request later
+    const rejection = validateCompletion(timerSession, timer, startTime, endTime);
+    if (rejection) {
+      return NextResponse.json({
+        status: 'rejected',
+        reason: rejection,
+        serverTime: Date.now()
+      }, { status: 422 });
+    }
+
+    const result = await completeTimer(
+      supabase,
+      timerSession.id,
+      userId,
+      new Date(getPlannedEnd(timer)!)
+    );
+
+    // Someone else completed it between our read and write; report what they stored
+    if (!result) {
+      const { data: completed } = await supabase
+        .from('timer_sessions')
+        .select('validated, suspicious')
+        .eq('id', timerSession.id)
+        .single();
+
+      return NextResponse.json({
+        status: 'already_completed',
+        validated: !!completed?.validated,
+        suspicious: !!completed?.suspicious,
+        serverTime: Date.now()
+      });
+    }
+
+    return NextResponse.json({
+      status: 'completed',
+      validated: result.report.counts,
+      anomalyScore: result.report.score,
+      anomalyReasons: result.report.reasons,
+      achievements: result.achievements,
+      serverTime: Date.now()
+    });
+
+  } catch (error) {
+    console.error('Timer completion error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Returns a rejection reason, or null when the claim is consistent
+function validateCompletion(
+  timerSession: any,
+  timer: TimerState,
+  startTime: number,
+  endTime: number
+): string | null {
+  const storedStart = timer.startedAt!;
+  const plannedEnd = getPlannedEnd(timer)!;
+
+  if (Math.abs(startTime - storedStart) > TOLERANCE) {
+    return 'start_mismatch';
+  }
+
+  // A session can't finish while it is paused, or once abandoned
+  if (timer.status === 'paused' || timer.status === 'abandoned') {
+    return timer.status;
+  }
+
+  if (endTime < plannedEnd - TOLERANCE) {
+    return 'ended_early';
+  }
+
+  if (endTime > Date.now() + TOLERANCE || plannedEnd > Date.now() + TOLERANCE) {
+    return 'end_in_future';
+  }
+
+  // The session must have been seen live at least once
+  if (!timerSession.heartbeat_count || !timerSession.last_heartbeat) {
+    return 'no_heartbeats';
+  }
+
+  const lastHeartbeat = new Date(timerSession.last_heartbeat).getTime();
+  if (lastHeartbeat < storedStart - TOLERANCE || lastHeartbeat > endTime + TOLERANCE) {
+    return 'heartbeat_outside_session';
+  }
+
+  return null;
+}
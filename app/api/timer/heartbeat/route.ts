@@ -1,6 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import {
+  completeTimer,
+  getSessionTimer,
+  isOwnedByOtherDevice,
+  recordHeartbeat
+} from '@/lib/timer-sessions';
+import { getElapsed, getRemaining, settleTimer } from '@/lib/timer-engine';
+import { verifySessionToken } from '@/lib/session-tokens';
+import { SecurityEventKind, logSecurityEvent } from '@/lib/security-events';
+
+// Drift beyond this is reported back to the client
+const DRIFT_WARNING = 5000;
+
+// Pulses come every 30s, plus one on start, resume and phase end
+const RATE_WINDOW = 30000;
+const MAX_PULSES_PER_WINDOW = 4;
+
+const MAX_NONCE_LENGTH = 64;
 
 // Server-side timer validation
 export async function POST(request: NextRequest) {
@@ -18,64 +36,160 @@ export async function POST(request: NextRequest) {
     }
 
     const supabase = createRouteHandlerClient({ cookies });
-    const { userId, sessionId, elapsed, clientTime } = await request.json();
+    const { token, seq, nonce, elapsed, clientTime, deviceId } = await request.json();
 
     // Verify user authentication
     const { data: { session } } = await supabase.auth.getSession();
-    if (!session || session.user.id !== userId) {
+    if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const userId = session.user.id;
+    const reject = async (
+      kind: SecurityEventKind,
+      status: number,
+      sessionId: string | null,
+      detail: Record<string, unknown> = {}
+    ) => {
+      await logSecurityEvent(supabase, request, { kind, userId, sessionId, detail });
+      return NextResponse.json({ error: 'Heartbeat rejected', reason: kind }, { status });
+    };
+
+    // The token names the session, so pulses can't be aimed at another one
+    const claims = verifySessionToken(token);
+    if (!claims) {
+      return reject('invalid_token', 401, null);
+    }
+    if (claims.userId !== userId) {
+      return reject('token_mismatch', 401, claims.sessionId, { tokenUserId: claims.userId });
+    }
+
+    if (!Number.isInteger(seq) || seq < 1
+      || typeof nonce !== 'string' || !nonce || nonce.length > MAX_NONCE_LENGTH) {
+      return NextResponse.json({ error: 'Invalid heartbeat' }, { status: 400 });
+    }
+
     // Get timer session from database
     const { data: timerSession, error } = await supabase
       .from('timer_sessions')
       .select('*')
+      .eq('id', claims.sessionId)
       .eq('user_id', userId)
       .eq('completed', false)
-      .order('start_time', { ascending: false })
-      .limit(1)
+      .is('abandoned_at', null)
       .single();
 
     if (error || !timerSession) {
       return NextResponse.json({ error: 'No active timer session' }, { status: 404 });
     }
 
-    // Validate elapsed time with server time
-    const serverElapsed = Date.now() - new Date(timerSession.start_time).getTime();
-    const timeDrift = Math.abs(serverElapsed - elapsed);
+    // Another device took the session over; this one should stop pulsing.
+    // An owned session only takes pulses that say which device sent them.
+    if (isOwnedByOtherDevice(timerSession, deviceId) || (timerSession.device_id && !deviceId)) {
+      return NextResponse.json({
+        error: 'Session is active on another device',
+        ownerDeviceId: timerSession.device_id,
+        ownerDeviceName: timerSession.device_name
+      }, { status: 409 });
+    }
+
+    // Sequence numbers only go up: equal is a replay, lower arrived out of order
+    const lastSeq = timerSession.heartbeat_seq || 0;
+    if (seq <= lastSeq) {
+      return reject(
+        seq === lastSeq ? 'replayed_heartbeat' : 'out_of_order_heartbeat',
+        422,
+        timerSession.id,
+        { seq, lastSeq }
+      );
+    }
+
+    const now = Date.now();
+    const { count: recentPulses } = await supabase
+      .from('timer_heartbeats')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', timerSession.id)
+      .gte('at', new Date(now - RATE_WINDOW).toISOString());
+
+    if ((recentPulses || 0) >= MAX_PULSES_PER_WINDOW) {
+      return reject('heartbeat_rate_limited', 429, timerSession.id, { recentPulses, seq });
+    }
+
+    const { data: reused } = await supabase
+      .from('timer_heartbeats')
+      .select('id')
+      .eq('session_id', timerSession.id)
+      .eq('nonce', nonce)
+      .limit(1);
+
+    if (reused && reused.length > 0) {
+      return reject('reused_nonce', 422, timerSession.id, { seq });
+    }
+
+    // Claim the sequence number; a concurrent pulse with the same one loses
+    const { data: claimed } = await supabase
+      .from('timer_sessions')
+      .update({ heartbeat_seq: seq })
+      .eq('id', timerSession.id)
+      .or(`heartbeat_seq.is.null,heartbeat_seq.lt.${seq}`)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      return reject('replayed_heartbeat', 422, timerSession.id, { seq });
+    }
 
-    // Flag suspicious behavior if drift > 5 seconds
-    if (timeDrift > 5000) {
-      await supabase
-        .from('timer_sessions')
-        .update({
-          suspicious: true,
-          drift_amount: timeDrift
-        })
-        .eq('id', timerSession.id);
+    const timer = settleTimer(getSessionTimer(timerSession), now);
 
+    // Paused sessions don't accrue time, so there is nothing to validate
+    if (timer.status === 'paused') {
       return NextResponse.json({
-        warning: 'Time drift detected',
-        serverTime: Date.now(),
-        drift: timeDrift
+        status: 'paused',
+        serverTime: now,
+        elapsed: getElapsed(timer, now),
+        remaining: getRemaining(timer, now)
       });
     }
 
+    // Validate elapsed time with server time, excluding pauses
+    const serverElapsed = getElapsed(timer, now);
+    const timeDrift = Math.abs(serverElapsed - (Number(elapsed) || 0));
+
+    // Every pulse is kept; the anomaly engine scores the history on completion
+    await recordHeartbeat(supabase, timerSession.id, userId, {
+      at: now,
+      clientTime: typeof clientTime === 'number' ? clientTime : null,
+      elapsed: Number(elapsed) || 0,
+      drift: timeDrift,
+      seq,
+      nonce
+    });
+
     // Update last heartbeat
     await supabase
       .from('timer_sessions')
       .update({
-        last_heartbeat: new Date().toISOString(),
-        heartbeat_count: (timerSession.heartbeat_count || 0) + 1
+        last_heartbeat: new Date(now).toISOString(),
+        heartbeat_count: (timerSession.heartbeat_count || 0) + 1,
+        drift_amount: Math.max(timerSession.drift_amount || 0, timeDrift)
       })
       .eq('id', timerSession.id);
 
+    // Let the client resync; drift counts against the session's score
+    if (timeDrift > DRIFT_WARNING) {
+      return NextResponse.json({
+        warning: 'Time drift detected',
+        serverTime: Date.now(),
+        drift: timeDrift
+      });
+    }
+
     // Check if timer should complete
-    if (serverElapsed >= timerSession.duration * 1000) {
-      await completeTimer(supabase, timerSession.id, userId);
+    if (timer.status === 'completed') {
+      const result = await completeTimer(supabase, timerSession.id, userId, new Date(timer.endedAt!));
       return NextResponse.json({
         status: 'completed',
-        elapsed: serverElapsed
+        elapsed: serverElapsed,
+        achievements: result?.achievements || []
       });
     }
 
@@ -83,7 +197,7 @@ export async function POST(request: NextRequest) {
       status: 'active',
       serverTime: Date.now(),
       elapsed: serverElapsed,
-      remaining: (timerSession.duration * 1000) - serverElapsed
+      remaining: getRemaining(timer, now)
     });
 
   } catch (error) {
@@ -91,62 +205,3 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
-
-async function completeTimer(supabase: any, sessionId: string, userId: string) {
-  // Mark session as completed
-  await supabase
-    .from('timer_sessions')
-    .update({
-      completed: true,
-      end_time: new Date().toISOString(),
-      validated: true
-    })
-    .eq('id', sessionId);
-
-  // Update user's streak
-  await updateStreak(supabase, userId);
-}
-
-async function updateStreak(supabase: any, userId: string) {
-  // Get user's current streak
-  const { data: streak } = await supabase
-    .from('streaks')
-    .select('*')
-    .eq('user_id', userId)
-    .single();
-
-  const today = new Date().toISOString().split('T')[0];
-  const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
-
-  if (!streak) {
-    // Create new streak
-    await supabase
-      .from('streaks')
-      .insert({
-        user_id: userId,
-        current_streak: 1,
-        longest_streak: 1,
-        last_completed: today
-      });
-  } else if (streak.last_completed === yesterday) {
-    // Continue streak
-    const newStreak = streak.current_streak + 1;
-    await supabase
-      .from('streaks')
-      .update({
-        current_streak: newStreak,
-        longest_streak: Math.max(newStreak, streak.longest_streak),
-        last_completed: today
-      })
-      .eq('user_id', userId);
-  } else if (streak.last_completed !== today) {
-    // Reset streak
-    await supabase
-      .from('streaks')
-      .update({
-        current_streak: 1,
-        last_completed: today
-      })
-      .eq('user_id', userId);
-  }
-}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { InterruptionKind } from '@/lib/focus-metrics';
+
+const KINDS: InterruptionKind[] = ['internal', 'external'];
+const MAX_NOTE_LENGTH = 200;
+
+// Logs an interruption without stopping the timer
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, kind, note } = await request.json();
+
+    if (!KINDS.includes(kind)) {
+      return NextResponse.json({ error: 'Invalid interruption kind' }, { status: 400 });
+    }
+
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        serverTime: Date.now(),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const { data: timerSession, error } = await supabase
+      .from('timer_sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .eq('completed', false)
+      .is('abandoned_at', null)
+      .single();
+
+    if (error || !timerSession) {
+      return NextResponse.json({ error: 'No active timer session' }, { status: 404 });
+    }
+
+    await supabase
+      .from('timer_interruptions')
+      .insert({
+        session_id: timerSession.id,
+        user_id: userId,
+        kind,
+        note: typeof note === 'string' ? note.trim().slice(0, MAX_NOTE_LENGTH) || null : null,
+        at: new Date().toISOString()
+      });
+
+    const { data: logged } = await supabase
+      .from('timer_interruptions')
+      .select('kind')
+      .eq('session_id', timerSession.id);
+
+    const counts = { internal: 0, external: 0 };
+    (logged || []).forEach((row: any) => {
+      if (row.kind === 'internal' || row.kind === 'external') {
+        counts[row.kind as InterruptionKind] += 1;
+      }
+    });
+
+    return NextResponse.json({
+      status: 'logged',
+      counts,
+      serverTime: Date.now()
+    });
+
+  } catch (error) {
+    console.error('Interruption log error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
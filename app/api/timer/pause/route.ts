@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import {
+  completeTimer,
+  getActiveElapsed,
+  getSessionTimer,
+  isOwnedByOtherDevice,
+  recordTimerEvent
+} from '@/lib/timer-sessions';
+import { settleTimer } from '@/lib/timer-engine';
+
+// Opens a pause segment on the active session
+export async function POST(request: NextRequest) {
+  try {
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        serverTime: Date.now(),
+        pausedAt: Date.now(),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+    const { sessionId, deviceId } = await request.json();
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const { data: timerSession, error } = await supabase
+      .from('timer_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .eq('completed', false)
+      .is('abandoned_at', null)
+      .single();
+
+    if (error || !timerSession) {
+      return NextResponse.json({ error: 'No active timer session' }, { status: 404 });
+    }
+
+    // Only the device that owns the session controls it
+    if (isOwnedByOtherDevice(timerSession, deviceId)) {
+      return NextResponse.json({
+        error: 'Session is active on another device',
+        ownerDeviceId: timerSession.device_id,
+        ownerDeviceName: timerSession.device_name
+      }, { status: 409 });
+    }
+
+    // Too late to pause: the planned end has already passed
+    const timer = settleTimer(getSessionTimer(timerSession), Date.now());
+    if (timer.status === 'completed') {
+      await completeTimer(supabase, timerSession.id, userId, new Date(timer.endedAt!));
+      return NextResponse.json({
+        status: 'completed',
+        serverTime: Date.now(),
+        endedAt: timer.endedAt,
+        elapsed: timer.durationMs,
+        remaining: 0
+      });
+    }
+
+    // Pausing twice keeps the original pause
+    if (!timerSession.paused_at) {
+      const pausedAt = new Date().toISOString();
+
+      const { data: updated } = await supabase
+        .from('timer_sessions')
+        .update({ paused_at: pausedAt })
+        .eq('id', timerSession.id)
+        .is('paused_at', null)
+        .select('id');
+
+      if (updated && updated.length > 0) {
+        await supabase
+          .from('timer_pauses')
+          .insert({
+            session_id: timerSession.id,
+            user_id: userId,
+            paused_at: pausedAt
+          });
+
+        await recordTimerEvent(supabase, timerSession.id, userId, {
+          type: 'pause',
+          at: new Date(pausedAt).getTime()
+        });
+      }
+
+      timerSession.paused_at = pausedAt;
+    }
+
+    const elapsed = getActiveElapsed(timerSession);
+
+    return NextResponse.json({
+      status: 'paused',
+      serverTime: Date.now(),
+      pausedAt: new Date(timerSession.paused_at).getTime(),
+      totalPaused: timerSession.total_paused || 0,
+      elapsed,
+      remaining: (timerSession.duration * 1000) - elapsed
+    });
+
+  } catch (error) {
+    console.error('Timer pause error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
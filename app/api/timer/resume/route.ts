@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getActiveElapsed, isOwnedByOtherDevice, recordTimerEvent } from '@/lib/timer-sessions';
+import { issueSessionToken } from '@/lib/session-tokens';
+
+// Closes the open pause segment and resumes the session
+export async function POST(request: NextRequest) {
+  try {
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        serverTime: Date.now(),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+    const { sessionId, deviceId } = await request.json();
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const { data: timerSession, error } = await supabase
+      .from('timer_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .eq('completed', false)
+      .is('abandoned_at', null)
+      .single();
+
+    if (error || !timerSession) {
+      return NextResponse.json({ error: 'No active timer session' }, { status: 404 });
+    }
+
+    // Only the device that owns the session controls it
+    if (isOwnedByOtherDevice(timerSession, deviceId)) {
+      return NextResponse.json({
+        error: 'Session is active on another device',
+        ownerDeviceId: timerSession.device_id,
+        ownerDeviceName: timerSession.device_name
+      }, { status: 409 });
+    }
+
+    // Resuming a running session is a no-op
+    if (timerSession.paused_at) {
+      const resumedAt = new Date();
+      const pausedFor = Math.max(0, resumedAt.getTime() - new Date(timerSession.paused_at).getTime());
+      const totalPaused = (timerSession.total_paused || 0) + pausedFor;
+
+      const { data: updated } = await supabase
+        .from('timer_sessions')
+        .update({
+          paused_at: null,
+          total_paused: totalPaused
+        })
+        .eq('id', timerSession.id)
+        .eq('paused_at', timerSession.paused_at)
+        .select('id');
+
+      if (updated && updated.length > 0) {
+        await supabase
+          .from('timer_pauses')
+          .update({
+            resumed_at: resumedAt.toISOString(),
+            duration: pausedFor
+          })
+          .eq('session_id', timerSession.id)
+          .is('resumed_at', null);
+
+        await recordTimerEvent(supabase, timerSession.id, userId, {
+          type: 'resume',
+          at: resumedAt.getTime()
+        });
+      }
+
+      timerSession.paused_at = null;
+      timerSession.total_paused = totalPaused;
+    }
+
+    const elapsed = getActiveElapsed(timerSession);
+    const remaining = (timerSession.duration * 1000) - elapsed;
+
+    return NextResponse.json({
+      status: 'active',
+      serverTime: Date.now(),
+      totalPaused: timerSession.total_paused || 0,
+      elapsed,
+      remaining,
+      // The old token may have run out during the pause
+      token: issueSessionToken(timerSession.id, userId, remaining)
+    });
+
+  } catch (error) {
+    console.error('Timer resume error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
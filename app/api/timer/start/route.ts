@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { randomUUID } from 'crypto';
+import { CyclePhase, isBreakPhase } from '@/lib/pomodoro';
+import {
+  abandonSession,
+  describeSession,
+  findActiveSession,
+  getActiveElapsed,
+  recordTimerEvent
+} from '@/lib/timer-sessions';
+import { issueSessionToken } from '@/lib/session-tokens';
+import { isValidTimeZone } from '@/lib/timezones';
+
+// Longest session we accept (4 hours)
+const MAX_DURATION = 4 * 60 * 60;
+
+const PHASES: CyclePhase[] = ['work', 'short_break', 'long_break'];
+
+// Session labels are optional free text
+const MAX_TASK_LENGTH = 120;
+const MAX_PROJECT_LENGTH = 50;
+const MAX_DEVICE_NAME_LENGTH = 60;
+
+// What to do when the user already has a session running elsewhere
+type ConflictResolution = 'takeover' | 'cancel_other';
+const RESOLUTIONS: ConflictResolution[] = ['takeover', 'cancel_other'];
+
+function cleanLabel(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim().replace(/\s+/g, ' ');
+  return trimmed ? trimmed.slice(0, maxLength) : null;
+}
+
+// Server-authoritative session start
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      duration,
+      phase = 'work',
+      cycleId = null,
+      round = null,
+      cycleConfig = null,
+      task,
+      project,
+      deviceId = null,
+      deviceName,
+      timezone,
+      onConflict = null
+    } = await request.json();
+
+    if (!Number.isInteger(duration) || duration <= 0 || duration > MAX_DURATION) {
+      return NextResponse.json({ error: 'Invalid duration' }, { status: 400 });
+    }
+
+    if (!PHASES.includes(phase)) {
+      return NextResponse.json({ error: 'Invalid phase' }, { status: 400 });
+    }
+
+    if (onConflict !== null && !RESOLUTIONS.includes(onConflict)) {
+      return NextResponse.json({ error: 'Invalid conflict resolution' }, { status: 400 });
+    }
+
+    // Return demo session if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      const now = Date.now();
+      return NextResponse.json({
+        status: 'demo',
+        sessionId: `demo-${randomUUID()}`,
+        userId: 'demo-user',
+        startTime: now,
+        serverTime: now,
+        duration,
+        phase,
+        task: cleanLabel(task, MAX_TASK_LENGTH),
+        project: cleanLabel(project, MAX_PROJECT_LENGTH),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const startTime = new Date();
+
+    // Breaks live in their own table so they never count toward streaks
+    if (isBreakPhase(phase)) {
+      const { data: timerBreak, error } = await supabase
+        .from('timer_breaks')
+        .insert({
+          id: randomUUID(),
+          user_id: userId,
+          cycle_id: cycleId,
+          kind: phase,
+          start_time: startTime.toISOString(),
+          duration
+        })
+        .select('id, start_time, duration')
+        .single();
+
+      if (error || !timerBreak) {
+        console.error('Timer break insert failed:', error);
+        return NextResponse.json({ error: 'Failed to start break' }, { status: 500 });
+      }
+
+      return NextResponse.json({
+        status: 'started',
+        sessionId: timerBreak.id,
+        userId,
+        startTime: new Date(timerBreak.start_time).getTime(),
+        serverTime: Date.now(),
+        duration: timerBreak.duration,
+        phase
+      });
+    }
+
+    // One active focus session per user
+    const active = await findActiveSession(supabase, userId, startTime.getTime());
+    if (active) {
+      if (onConflict === 'takeover') {
+        // Keep the running session and make this device its owner
+        await supabase
+          .from('timer_sessions')
+          .update({
+            device_id: deviceId,
+            device_name: cleanLabel(deviceName, MAX_DEVICE_NAME_LENGTH)
+          })
+          .eq('id', active.id);
+
+        return NextResponse.json({
+          status: 'taken_over',
+          userId,
+          serverTime: Date.now(),
+          phase: 'work',
+          ...await describeSession(supabase, active),
+          deviceId,
+          token: issueSessionToken(active.id, userId, active.duration * 1000 - getActiveElapsed(active))
+        });
+      }
+
+      if (onConflict === 'cancel_other') {
+        await abandonSession(supabase, active, userId, 'other', 'Cancelled from another device');
+      } else {
+        return NextResponse.json({
+          error: 'Another session is already active',
+          activeSession: await describeSession(supabase, active),
+          serverTime: Date.now()
+        }, { status: 409 });
+      }
+    }
+
+    // Create the session row with server time
+    const { data: timerSession, error } = await supabase
+      .from('timer_sessions')
+      .insert({
+        id: randomUUID(),
+        user_id: userId,
+        start_time: startTime.toISOString(),
+        duration,
+        completed: false,
+        validated: false,
+        heartbeat_count: 0,
+        heartbeat_seq: 0,
+        cycle_id: cycleId,
+        cycle_round: round,
+        cycle_config: cycleConfig,
+        device_id: deviceId,
+        device_name: cleanLabel(deviceName, MAX_DEVICE_NAME_LENGTH),
+        // Where the user is now; streak days are counted in it
+        timezone: isValidTimeZone(timezone) ? timezone : null,
+        task: cleanLabel(task, MAX_TASK_LENGTH),
+        project: cleanLabel(project, MAX_PROJECT_LENGTH)
+      })
+      .select('id, start_time, duration, task, project')
+      .single();
+
+    if (error || !timerSession) {
+      console.error('Timer start insert failed:', error);
+      return NextResponse.json({ error: 'Failed to start session' }, { status: 500 });
+    }
+
+    await recordTimerEvent(supabase, timerSession.id, userId, {
+      type: 'start',
+      at: new Date(timerSession.start_time).getTime(),
+      durationMs: timerSession.duration * 1000
+    });
+
+    return NextResponse.json({
+      status: 'started',
+      sessionId: timerSession.id,
+      userId,
+      token: issueSessionToken(timerSession.id, userId, timerSession.duration * 1000),
+      startTime: new Date(timerSession.start_time).getTime(),
+      serverTime: Date.now(),
+      duration: timerSession.duration,
+      phase,
+      task: timerSession.task,
+      project: timerSession.project
+    });
+
+  } catch (error) {
+    console.error('Timer start error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
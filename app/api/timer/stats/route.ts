@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getCompletionStats } from '@/lib/focus-metrics';
+
+// Completion rate over the last 30 days
+const WINDOW_DAYS = 30;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        windowDays: WINDOW_DAYS,
+        ...getCompletionStats([], 0),
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const since = new Date(Date.now() - WINDOW_DAYS * 86400000).toISOString();
+
+    // Imported history was never run here, so it says nothing about completion
+    const { data: sessions, error } = await supabase
+      .from('timer_sessions')
+      .select('id, completed, abandoned_at, abandon_reason')
+      .eq('user_id', userId)
+      .is('import_id', null)
+      .gte('start_time', since);
+
+    if (error) {
+      console.error('Stats lookup failed:', error);
+      return NextResponse.json({ error: 'Failed to load stats' }, { status: 500 });
+    }
+
+    const { count: interruptions } = await supabase
+      .from('timer_interruptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('at', since);
+
+    return NextResponse.json({
+      windowDays: WINDOW_DAYS,
+      ...getCompletionStats(sessions || [], interruptions || 0)
+    });
+
+  } catch (error) {
+    console.error('Stats error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+
+// How many recent sessions to scan, and how many suggestions to return
+const SCAN_LIMIT = 200;
+const SUGGESTION_LIMIT = 10;
+
+// Recent tasks and projects for autocomplete
+export async function GET(request: NextRequest) {
+  try {
+    // Return demo response if Supabase not configured
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return NextResponse.json({
+        status: 'demo',
+        projects: [],
+        tasks: [],
+        message: 'Demo mode - Supabase not configured'
+      });
+    }
+
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Verify user authentication
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: sessions, error } = await supabase
+      .from('timer_sessions')
+      .select('task, project, start_time')
+      .eq('user_id', session.user.id)
+      .order('start_time', { ascending: false })
+      .limit(SCAN_LIMIT);
+
+    if (error) {
+      console.error('Tag lookup failed:', error);
+      return NextResponse.json({ error: 'Failed to load tags' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      projects: mostRecent((sessions || []).map((row: any) => row.project)),
+      tasks: mostRecent((sessions || []).map((row: any) => row.task))
+    });
+
+  } catch (error) {
+    console.error('Tag lookup error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Distinct non-empty values, newest first (case-insensitive)
+function mostRecent(values: (string | null)[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const value of values) {
+    if (!value) continue;
+    const key = value.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(value);
+    if (result.length >= SUGGESTION_LIMIT) break;
+  }
+
+  return result;
+}
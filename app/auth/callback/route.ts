@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+
+// Google OAuth lands here: trade the code for a session cookie, then go back
+// to the page that sent the user to sign in
+export async function GET(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('code');
+  const next = request.nextUrl.searchParams.get('next');
+
+  // Only same-site paths, so the callback can't be used as an open redirect
+  const destination = next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+
+  if (code) {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error) {
+      console.error('OAuth code exchange failed:', error);
+      return NextResponse.redirect(new URL(`/login?error=1&next=${encodeURIComponent(destination)}`, request.url));
+    }
+  }
+
+  return NextResponse.redirect(new URL(destination, request.url));
+}
@@ -0,0 +1,319 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { FieldMapping, ImportScope, ImportSourceId } from '@/lib/session-import'
+
+const SOURCES: { id: ImportSourceId; label: string; hint: string }[] = [
+  { id: 'focus-timer', label: 'PWA Focus Timer', hint: 'A CSV or JSON file from our own export' },
+  { id: 'toggl', label: 'Toggl Track', hint: 'Reports → Detailed → Export CSV' },
+  { id: 'forest', label: 'Forest', hint: 'Settings → Export data (CSV)' },
+  { id: 'generic', label: 'Other app', hint: 'Any CSV or JSON; you pick the columns' }
+]
+
+const MAPPING_FIELDS: { key: keyof FieldMapping; label: string; required?: boolean }[] = [
+  { key: 'start', label: 'Start time', required: true },
+  { key: 'end', label: 'End time' },
+  { key: 'durationMinutes', label: 'Duration (minutes)' },
+  { key: 'task', label: 'Task' },
+  { key: 'project', label: 'Project' }
+]
+
+interface ImportResult {
+  status?: string
+  total: number
+  ready: number
+  duplicates: number
+  skipped: number
+  errors: { row: number; message: string }[]
+  first: string | null
+  last: string | null
+  minutes: number
+  imported: number
+}
+
+// Column names from the first row of a CSV, or the keys of the first JSON object
+const getColumns = (content: string): string[] => {
+  const trimmed = content.replace(/^\uFEFF/, '').trim()
+  if (trimmed.startsWith('[')) {
+    try {
+      const [first] = JSON.parse(trimmed)
+      return first && typeof first === 'object' ? Object.keys(first) : []
+    } catch {
+      return []
+    }
+  }
+  const header = trimmed.split(/\r?\n/, 1)[0] || ''
+  return (header.match(/("([^"]|"")*"|[^,]*)(,|$)/g) || [])
+    .map((cell) => cell.replace(/,$/, '').replace(/^"|"$/g, '').replace(/""/g, '"').trim())
+    .filter(Boolean)
+}
+
+export default function ImportPage() {
+  const router = useRouter()
+  const [source, setSource] = useState<ImportSourceId>('toggl')
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [content, setContent] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<Partial<Record<keyof FieldMapping, string>>>({})
+  const [scope, setScope] = useState<ImportScope>('analytics')
+  const [preview, setPreview] = useState<ImportResult | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const columns = content && source === 'generic' ? getColumns(content) : []
+
+  const reset = () => {
+    setPreview(null)
+    setResult(null)
+    setError(null)
+  }
+
+  const chooseFile = async (file: File | undefined) => {
+    reset()
+    if (!file) return
+    setFileName(file.name)
+    setContent(await file.text())
+  }
+
+  const submit = async (dryRun: boolean) => {
+    if (!content) return
+    setIsWorking(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          source,
+          content,
+          mapping: source === 'generic' ? mapping : null,
+          scope,
+          dryRun
+        })
+      })
+      const data = await response.json()
+      if (response.status === 401) {
+        setError('Sign in to import your history.')
+        return
+      }
+      if (!response.ok) {
+        setError(data.error || 'Import failed')
+        return
+      }
+      if (dryRun) {
+        setPreview(data)
+      } else {
+        setPreview(null)
+        setResult(data)
+      }
+    } catch (error) {
+      console.error('Import failed:', error)
+      setError('Could not reach the server. Try again.')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-8">
+      <div className="max-w-2xl w-full">
+        <button
+          onClick={() => router.push('/analytics')}
+          className="mb-8 text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
+        >
+          ← Back to Analytics
+        </button>
+
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8">
+          <h1 className="text-3xl font-bold text-center mb-2">
+            📥 Import History
+          </h1>
+          <p className="text-center text-sm text-gray-600 dark:text-gray-400 mb-8">
+            Bring your sessions over from another focus timer.
+          </p>
+
+          {/* Source */}
+          <div className="mb-6">
+            <div className="font-semibold mb-2">1. Where is it from?</div>
+            <div className="grid grid-cols-2 gap-2">
+              {SOURCES.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => {
+                    setSource(option.id)
+                    reset()
+                  }}
+                  className={`p-3 rounded-lg text-left transition-colors ${
+                    source === option.id
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  <div className="font-semibold">{option.label}</div>
+                  <div className="text-xs opacity-80">{option.hint}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* File */}
+          <div className="mb-6">
+            <div className="font-semibold mb-2">2. Choose the export file</div>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => chooseFile(e.target.files?.[0])}
+              className="text-sm"
+            />
+            {fileName && (
+              <div className="text-xs text-gray-500 mt-1">{fileName}</div>
+            )}
+            <div className="text-xs text-gray-500 mt-1">
+              Times without a timezone are read in your streak timezone.
+            </div>
+          </div>
+
+          {/* Column mapping */}
+          {source === 'generic' && content && (
+            <div className="mb-6">
+              <div className="font-semibold mb-2">Match the columns</div>
+              {columns.length === 0 ? (
+                <div className="text-sm text-red-500">No columns found in this file.</div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  {MAPPING_FIELDS.map((field) => (
+                    <label key={field.key} className="flex flex-col gap-1">
+                      <span className="text-gray-600 dark:text-gray-400">
+                        {field.label}{field.required && ' *'}
+                      </span>
+                      <select
+                        value={mapping[field.key] || ''}
+                        onChange={(e) => {
+                          setMapping({ ...mapping, [field.key]: e.target.value || undefined })
+                          setPreview(null)
+                        }}
+                        className="p-2 rounded-lg border dark:bg-gray-700 dark:border-gray-600"
+                      >
+                        <option value="">—</option>
+                        {columns.map((column) => (
+                          <option key={column} value={column}>{column}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              )}
+              <div className="text-xs text-gray-500 mt-1">
+                Pick an end time or a duration.
+              </div>
+            </div>
+          )}
+
+          {/* Scope */}
+          <div className="mb-6">
+            <div className="font-semibold mb-2">3. What should it count toward?</div>
+            <label className="flex items-start gap-2 mb-2 text-sm">
+              <input
+                type="radio"
+                checked={scope === 'analytics'}
+                onChange={() => setScope('analytics')}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-semibold">Analytics only</span>
+                <span className="block text-gray-500">Charts and exports include it; your streak is untouched.</span>
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="radio"
+                checked={scope === 'streaks'}
+                onChange={() => setScope('streaks')}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-semibold">Analytics and streaks</span>
+                <span className="block text-gray-500">Your streak and badges are rebuilt with this history.</span>
+              </span>
+            </label>
+          </div>
+
+          {error && (
+            <div className="mb-4 text-sm text-red-500">{error}</div>
+          )}
+
+          {/* Preview */}
+          {preview && (
+            <div className="mb-6 p-4 bg-gray-100 dark:bg-gray-700 rounded-lg text-sm">
+              <div className="font-semibold mb-1">
+                {preview.ready} of {preview.total} sessions ready to import
+                {preview.ready > 0 && ` (${Math.round(preview.minutes / 60)}h of focus)`}
+              </div>
+              {preview.first && preview.last && (
+                <div className="text-gray-600 dark:text-gray-400">
+                  {new Date(preview.first).toLocaleDateString()} – {new Date(preview.last).toLocaleDateString()}
+                </div>
+              )}
+              {preview.duplicates > 0 && (
+                <div className="text-gray-600 dark:text-gray-400">
+                  {preview.duplicates} already in your history, skipped
+                </div>
+              )}
+              {preview.skipped > 0 && (
+                <div className="text-gray-600 dark:text-gray-400">
+                  {preview.skipped} rows skipped
+                </div>
+              )}
+              {preview.errors.length > 0 && (
+                <ul className="mt-2 text-xs text-red-500 space-y-1">
+                  {preview.errors.map((rowError) => (
+                    <li key={`${rowError.row}-${rowError.message}`}>Row {rowError.row}: {rowError.message}</li>
+                  ))}
+                </ul>
+              )}
+              {preview.status === 'demo' && (
+                <div className="mt-2 text-xs text-gray-500">Demo mode - nothing will be saved</div>
+              )}
+            </div>
+          )}
+
+          {result && (
+            <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-sm">
+              <div className="font-semibold text-green-800 dark:text-green-200">
+                Imported {result.imported} sessions
+              </div>
+              <div className="text-green-700 dark:text-green-300">
+                They&apos;re marked as imported and never count as server-validated.
+              </div>
+              <button
+                onClick={() => router.push('/analytics')}
+                className="mt-2 text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                See your analytics →
+              </button>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => submit(true)}
+              disabled={!content || isWorking}
+              className="flex-1 py-3 rounded-lg font-bold bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+            >
+              {isWorking && !preview ? 'Checking...' : 'Preview'}
+            </button>
+            <button
+              onClick={() => submit(false)}
+              disabled={!preview || preview.ready === 0 || isWorking || preview.status === 'demo'}
+              className="flex-1 py-3 rounded-lg font-bold bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50 transition-colors"
+            >
+              {isWorking && preview ? 'Importing...' : `Import ${preview ? preview.ready : ''} sessions`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
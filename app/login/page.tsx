@@ -0,0 +1,75 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  )
+}
+
+function LoginForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const next = searchParams.get('next') || '/'
+  const [error, setError] = useState(searchParams.get('error') ? 'Sign-in failed. Please try again.' : null)
+  const [isRedirecting, setIsRedirecting] = useState(false)
+
+  const signIn = async () => {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      setError('Sign-in is unavailable in demo mode.')
+      return
+    }
+
+    setIsRedirecting(true)
+    setError(null)
+    const supabase = createClientComponentClient()
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider: 'google',
+      options: {
+        redirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(next)}`
+      }
+    })
+    if (error) {
+      console.error('Sign-in failed:', error)
+      setError('Sign-in failed. Please try again.')
+      setIsRedirecting(false)
+    }
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-8">
+      <div className="max-w-md w-full">
+        <button
+          onClick={() => router.push('/')}
+          className="mb-8 text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
+        >
+          ← Back to Home
+        </button>
+
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8 text-center">
+          <h1 className="text-3xl font-bold mb-2">🔐 Sign In</h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-8">
+            Sign in to keep your streaks, sessions and daily inspiration.
+          </p>
+
+          <button
+            onClick={signIn}
+            disabled={isRedirecting}
+            className="w-full bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-bold py-3 px-6 rounded-lg transition-colors"
+          >
+            {isRedirecting ? 'Redirecting...' : 'Continue with Google'}
+          </button>
+
+          {error && (
+            <div className="mt-4 text-sm text-red-500">{error}</div>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
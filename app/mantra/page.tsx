@@ -2,104 +2,137 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import { getLocalDay } from '@/lib/timezones'
 
-const FALLBACK_MANTRAS = [
-  "Focus on progress, not perfection.",
-  "Every minute of focus builds your future.",
-  "Discipline is choosing between what you want now and what you want most.",
-  "Your future self will thank you for not giving up.",
-  "Small steps daily lead to big changes yearly.",
-  "The pain of discipline weighs ounces, regret weighs tons.",
-  "Winners focus on winning, losers focus on winners.",
-  "Success is the sum of small efforts repeated daily.",
-  "Your only limit is your mind.",
-  "Dream it. Believe it. Build it."
-]
-
-const DAILY_QUESTS = [
-  "Write 3 things you're grateful for today",
-  "Read 10 pages of a personal development book",
-  "Complete a 10-minute meditation session",
-  "Review and update your monthly budget",
-  "Reach out to someone you haven't talked to recently",
-  "Do 25 pushups or a 5-minute workout",
-  "Declutter one area of your workspace",
-  "Learn one new professional skill for 15 minutes"
-]
+// What /api/mantra reports about where the content came from
+interface ContentSource {
+  cached: boolean
+  fallback: boolean
+  responseTime: number // ms spent on the server
+}
+
+interface DailyContent {
+  mantra: string
+  quest: string
+  mantraSource: ContentSource
+  questSource: ContentSource
+}
+
+// The offline copy remembers the day it was for, in the user's timezone
+interface SavedContent extends DailyContent {
+  date: string
+  timezone: string
+}
+
+const SAVED_CONTENT_KEY = 'daily-content'
+
+const toSource = (data: any): ContentSource => ({
+  cached: !!data.cached,
+  fallback: !!data.fallback,
+  responseTime: data.responseTime || 0
+})
+
+const describeSource = (source: ContentSource) => {
+  if (source.cached) return '⚡ Cached'
+  if (source.fallback) return '📦 Fallback'
+  return '🤖 AI Generated'
+}
 
 export default function MantraPage() {
   const router = useRouter()
-  const [mantra, setMantra] = useState('')
-  const [quest, setQuest] = useState('')
+  const [content, setContent] = useState<DailyContent | null>(null)
   const [isLoading, setIsLoading] = useState(true)
-  const [responseTime, setResponseTime] = useState(0)
+  const [isOffline, setIsOffline] = useState(false) // showing the saved copy
+  const [error, setError] = useState<string | null>(null)
   const [questCompleted, setQuestCompleted] = useState(false)
-  const [cached, setCached] = useState(false)
+  const [questError, setQuestError] = useState<string | null>(null)
+  const [isSavingQuest, setIsSavingQuest] = useState(false)
+  const [historyVersion, setHistoryVersion] = useState(0) // bumped to reload the history
 
   useEffect(() => {
     fetchDailyContent()
   }, [])
 
   const fetchDailyContent = async () => {
-    const startTime = Date.now()
     setIsLoading(true)
+    setError(null)
 
     try {
-      // Check cache first
-      const today = new Date().toISOString().split('T')[0]
-      const cachedMantra = localStorage.getItem(`mantra-${today}`)
-      const cachedQuest = localStorage.getItem(`quest-${today}`)
-
-      if (cachedMantra && cachedQuest) {
-        setMantra(cachedMantra)
-        setQuest(cachedQuest)
-        setCached(true)
-        setResponseTime(Date.now() - startTime)
-        setIsLoading(false)
-
-        // Check if quest was completed
-        const completed = localStorage.getItem(`quest-completed-${today}`)
-        setQuestCompleted(completed === 'true')
+      const [mantraResponse, questResponse] = await Promise.all([
+        fetch('/api/mantra'),
+        fetch('/api/mantra', { method: 'POST' })
+      ])
+
+      if (mantraResponse.status === 401 || questResponse.status === 401) {
+        window.location.href = '/login?next=/mantra'
         return
       }
+      if (!mantraResponse.ok || !questResponse.ok) {
+        throw new Error(`Mantra failed with status ${mantraResponse.ok ? questResponse.status : mantraResponse.status}`)
+      }
 
-      // Simulate API call with fallback
-      await new Promise(resolve => setTimeout(resolve, 500))
-
-      // Use fallback mantras (simulating GPT response)
-      const randomMantra = FALLBACK_MANTRAS[Math.floor(Math.random() * FALLBACK_MANTRAS.length)]
-      const randomQuest = DAILY_QUESTS[Math.floor(Math.random() * DAILY_QUESTS.length)]
-
-      setMantra(randomMantra)
-      setQuest(randomQuest)
+      const mantraData = await mantraResponse.json()
+      const questData = await questResponse.json()
+      const fresh: DailyContent = {
+        mantra: mantraData.mantra,
+        quest: questData.quest,
+        mantraSource: toSource(mantraData),
+        questSource: toSource(questData)
+      }
 
-      // Cache for today
-      localStorage.setItem(`mantra-${today}`, randomMantra)
-      localStorage.setItem(`quest-${today}`, randomQuest)
+      setContent(fresh)
+      setQuestCompleted(!!questData.completed)
+      setIsOffline(false)
 
-      setResponseTime(Date.now() - startTime)
+      // Kept only for when the server can't be reached; error fallbacks carry no day
+      if (mantraData.date && mantraData.timezone) {
+        const saved: SavedContent = { ...fresh, date: mantraData.date, timezone: mantraData.timezone }
+        localStorage.setItem(SAVED_CONTENT_KEY, JSON.stringify(saved))
+      }
     } catch (error) {
-      // Use fallback on error
-      setMantra(FALLBACK_MANTRAS[0])
-      setQuest(DAILY_QUESTS[0])
+      console.error('Failed to load daily content:', error)
+
+      const raw = localStorage.getItem(SAVED_CONTENT_KEY)
+      const saved: SavedContent | null = raw ? JSON.parse(raw) : null
+      if (saved && saved.timezone && saved.date === getLocalDay(Date.now(), saved.timezone)) {
+        setContent(saved)
+        setIsOffline(true)
+      } else {
+        setError('Could not load today\'s inspiration. Check your connection and try again.')
+      }
     } finally {
       setIsLoading(false)
     }
   }
 
-  const handleQuestToggle = () => {
-    const today = new Date().toISOString().split('T')[0]
+  const handleQuestToggle = async () => {
+    if (!content) return
     const newStatus = !questCompleted
     setQuestCompleted(newStatus)
-    localStorage.setItem(`quest-completed-${today}`, newStatus.toString())
-  }
+    setQuestError(null)
+    setIsSavingQuest(true)
 
-  const refreshMantra = () => {
-    // Clear cache and fetch new
-    const today = new Date().toISOString().split('T')[0]
-    localStorage.removeItem(`mantra-${today}`)
-    localStorage.removeItem(`quest-${today}`)
-    fetchDailyContent()
+    try {
+      const response = await fetch('/api/quests', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ completed: newStatus })
+      })
+      if (response.status === 401) {
+        window.location.href = '/login?next=/mantra'
+        return
+      }
+      if (!response.ok) {
+        throw new Error(`Quest update failed with status ${response.status}`)
+      }
+      setHistoryVersion((version) => version + 1)
+    } catch (error) {
+      console.error('Failed to save quest:', error)
+      setQuestCompleted(!newStatus)
+      setQuestError('Could not save your quest. Try again.')
+    } finally {
+      setIsSavingQuest(false)
+    }
   }
 
   return (
@@ -125,13 +158,25 @@ export default function MantraPage() {
               </div>
               {isLoading ? (
                 <div className="text-xl animate-pulse">Loading...</div>
+              ) : error || !content ? (
+                <div>
+                  <div className="mb-4">{error}</div>
+                  <button
+                    onClick={fetchDailyContent}
+                    className="bg-white/20 hover:bg-white/30 font-bold py-2 px-6 rounded-lg transition-colors"
+                  >
+                    Try again
+                  </button>
+                </div>
               ) : (
                 <>
                   <div className="text-2xl font-semibold leading-relaxed">
-                    &quot;{mantra}&quot;
+                    &quot;{content.mantra}&quot;
                   </div>
                   <div className="mt-4 text-xs opacity-75">
-                    {cached ? '⚡ Cached' : '🤖 AI Generated'} • {responseTime}ms
+                    {isOffline
+                      ? '📴 Offline copy'
+                      : `${describeSource(content.mantraSource)} • ${content.mantraSource.responseTime}ms`}
                   </div>
                 </>
               )}
@@ -139,68 +184,83 @@ export default function MantraPage() {
           </div>
 
           {/* Daily Quest */}
-          <div className="mb-8">
-            <h2 className="text-xl font-semibold mb-4">📋 Daily Quest</h2>
-            <div className={`p-6 rounded-lg border-2 transition-all ${
-              questCompleted
-                ? 'bg-green-50 dark:bg-green-900/20 border-green-500'
-                : 'bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600'
-            }`}>
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <div className={`text-lg ${questCompleted ? 'line-through opacity-50' : ''}`}>
-                    {quest}
-                  </div>
-                  {questCompleted && (
-                    <div className="text-sm text-green-600 dark:text-green-400 mt-2">
-                      ✅ Completed! Great job!
+          {content && (
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-4">📋 Daily Quest</h2>
+              <div className={`p-6 rounded-lg border-2 transition-all ${
+                questCompleted
+                  ? 'bg-green-50 dark:bg-green-900/20 border-green-500'
+                  : 'bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600'
+              }`}>
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <div className={`text-lg ${questCompleted ? 'line-through opacity-50' : ''}`}>
+                      {content.quest}
                     </div>
-                  )}
+                    {!isOffline && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {describeSource(content.questSource)} • {content.questSource.responseTime}ms
+                      </div>
+                    )}
+                    {questCompleted && (
+                      <div className="text-sm text-green-600 dark:text-green-400 mt-2">
+                        ✅ Completed! Great job!
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={handleQuestToggle}
+                    disabled={isSavingQuest || isOffline}
+                    className={`ml-4 px-4 py-2 rounded-lg font-semibold transition-colors ${
+                      questCompleted
+                        ? 'bg-gray-300 dark:bg-gray-600 text-gray-600 dark:text-gray-300'
+                        : 'bg-green-500 hover:bg-green-600 text-white'
+                    }`}
+                  >
+                    {questCompleted ? 'Undo' : 'Complete'}
+                  </button>
                 </div>
-                <button
-                  onClick={handleQuestToggle}
-                  className={`ml-4 px-4 py-2 rounded-lg font-semibold transition-colors ${
-                    questCompleted
-                      ? 'bg-gray-300 dark:bg-gray-600 text-gray-600 dark:text-gray-300'
-                      : 'bg-green-500 hover:bg-green-600 text-white'
-                  }`}
-                >
-                  {questCompleted ? 'Undo' : 'Complete'}
-                </button>
               </div>
+              {questError && (
+                <div className="mt-2 text-sm text-red-500">{questError}</div>
+              )}
             </div>
-          </div>
+          )}
 
           {/* Performance Stats */}
-          <div className="grid grid-cols-2 gap-4 mb-8">
-            <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
-              <div className="text-2xl font-bold text-blue-500">
-                {responseTime}ms
+          {content && !isOffline && (
+            <div className="grid grid-cols-2 gap-4 mb-8">
+              <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
+                <div className="text-2xl font-bold text-blue-500">
+                  {Math.max(content.mantraSource.responseTime, content.questSource.responseTime)}ms
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Server Response Time
+                </div>
               </div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">
-                Response Time
+
+              <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
+                <div className="text-2xl font-bold text-green-500">
+                  {[content.mantraSource, content.questSource].filter((source) => source.cached).length} / 2
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Served From Cache
+                </div>
               </div>
             </div>
+          )}
 
-            <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
-              <div className="text-2xl font-bold text-green-500">
-                {cached ? '100%' : '0%'}
-              </div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">
-                Cache Hit Rate
-              </div>
+          {isOffline && (
+            <div className="mb-8 text-center text-sm text-gray-500 dark:text-gray-400">
+              You&apos;re offline - showing the copy saved earlier today.{' '}
+              <button onClick={fetchDailyContent} className="underline">
+                Retry
+              </button>
             </div>
-          </div>
+          )}
 
-          {/* Refresh Button */}
-          <div className="text-center">
-            <button
-              onClick={refreshMantra}
-              className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
-            >
-              🔄 Get New Inspiration (Dev Only)
-            </button>
-          </div>
+          {/* Quest History */}
+          {!isOffline && <QuestHistory version={historyVersion} />}
 
           {/* Technical Info */}
           <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-700">
@@ -217,4 +277,62 @@ export default function MantraPage() {
       </div>
     </main>
   )
+}
+
+interface QuestHistoryData {
+  today: string
+  history: { date: string; quest: string; completed: boolean }[]
+  currentStreak: number
+  longestStreak: number
+  totalCompleted: number
+}
+
+function QuestHistory({ version }: { version: number }) {
+  const [data, setData] = useState<QuestHistoryData | null>(null)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch('/api/quests?days=14')
+        if (!response.ok) {
+          throw new Error(`Quest history failed with status ${response.status}`)
+        }
+        setData(await response.json())
+      } catch (error) {
+        console.error('Failed to load quest history:', error)
+      }
+    }
+    fetchHistory()
+  }, [version])
+
+  if (!data) return null
+
+  // Today's quest is shown above
+  const past = data.history.filter((day) => day.date !== data.today)
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-xl font-semibold">📜 Quest History</h2>
+        <span className="text-sm text-gray-500">
+          🔥 {data.currentStreak}-day quest streak • best {data.longestStreak}
+        </span>
+      </div>
+      {past.length === 0 ? (
+        <div className="text-sm text-gray-500">Your past quests will show up here.</div>
+      ) : (
+        <ul className="space-y-2">
+          {past.map((day) => (
+            <li key={day.date} className="flex items-start gap-3 text-sm">
+              <span>{day.completed ? '✅' : '⬜'}</span>
+              <span className="text-gray-500 w-24 shrink-0">
+                {new Date(`${day.date}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })}
+              </span>
+              <span className={day.completed ? '' : 'text-gray-500'}>{day.quest}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
 }
\ No newline at end of file
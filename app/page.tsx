@@ -69,7 +69,7 @@ export default function Home() {
             </button>
           )}
 
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-8">
             <div className="border rounded-lg p-6 hover:shadow-lg transition-shadow">
               <h2 className="text-xl font-semibold mb-2">⏱️ Focus Timer</h2>
               <p className="text-gray-600 dark:text-gray-400 mb-4">
@@ -96,6 +96,19 @@ export default function Home() {
               </button>
             </div>
 
+            <div className="border rounded-lg p-6 hover:shadow-lg transition-shadow">
+              <h2 className="text-xl font-semibold mb-2">📊 Analytics</h2>
+              <p className="text-gray-600 dark:text-gray-400 mb-4">
+                Focus trends by day, week and time of day
+              </p>
+              <button
+                onClick={() => router.push('/analytics')}
+                className="text-blue-500 hover:underline"
+              >
+                View Analytics →
+              </button>
+            </div>
+
             <div className="border rounded-lg p-6 hover:shadow-lg transition-shadow">
               <h2 className="text-xl font-semibold mb-2">✨ Daily Mantra</h2>
               <p className="text-gray-600 dark:text-gray-400 mb-4">
@@ -122,6 +135,13 @@ export default function Home() {
             </div>
           </div>
 
+          <button
+            onClick={() => router.push('/settings')}
+            className="text-blue-500 hover:underline"
+          >
+            ⚙️ Settings
+          </button>
+
           <div className="mt-8 text-xs text-gray-500">
             <a
               href="https://github.com/septiannugraha/pwa-focus-timer"
@@ -0,0 +1,328 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  MOTIVATION_STYLES,
+  MotivationStyle,
+  NotificationPreferences,
+  PROFILE_LIMITS,
+  UserProfile
+} from '@/lib/user-profile'
+
+const NOTIFICATION_OPTIONS: { key: keyof NotificationPreferences; label: string }[] = [
+  { key: 'sessionComplete', label: 'When a focus session ends' },
+  { key: 'breakOver', label: 'When a break is over' },
+  { key: 'achievements', label: 'When I unlock a badge' },
+  { key: 'sound', label: 'Play a sound when the timer ends' }
+]
+
+// Every zone the browser knows, falling back to the ones we can see
+const getTimezones = (current: string): string[] => {
+  const supported: string[] = Intl.supportedValuesOf?.('timeZone') || []
+  const device = Intl.DateTimeFormat().resolvedOptions().timeZone
+  return Array.from(new Set([...supported, current, device])).sort()
+}
+
+export default function SettingsPage() {
+  const router = useRouter()
+  const [profile, setProfile] = useState<UserProfile | null>(null)
+  const [draft, setDraft] = useState<UserProfile | null>(null)
+  const [newPreset, setNewPreset] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDemo, setIsDemo] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+  const [permission, setPermission] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchProfile()
+    if ('Notification' in window) {
+      setPermission(Notification.permission)
+    }
+  }, [])
+
+  const fetchProfile = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/profile')
+      if (response.status === 401) {
+        window.location.href = '/login?next=/settings'
+        return
+      }
+      if (!response.ok) {
+        throw new Error(`Profile failed with status ${response.status}`)
+      }
+
+      const data = await response.json()
+      setIsDemo(data.status === 'demo')
+      setProfile(data.profile)
+      setDraft(data.profile)
+    } catch (error) {
+      console.error('Failed to load profile:', error)
+      setError('Could not load your settings.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const update = (changes: Partial<UserProfile>) => {
+    if (!draft) return
+    setDraft({ ...draft, ...changes })
+    setSaved(false)
+  }
+
+  const addPreset = () => {
+    const minutes = Number(newPreset)
+    if (!draft || !Number.isInteger(minutes) || draft.timerPresets.includes(minutes)) return
+    update({ timerPresets: [...draft.timerPresets, minutes].sort((a, b) => a - b) })
+    setNewPreset('')
+  }
+
+  const removePreset = (minutes: number) => {
+    if (!draft) return
+    update({ timerPresets: draft.timerPresets.filter((preset) => preset !== minutes) })
+  }
+
+  // Sends only what changed
+  const save = async () => {
+    if (!draft || !profile) return
+    const changes = Object.fromEntries(
+      Object.entries(draft).filter(([key, value]) =>
+        JSON.stringify(value) !== JSON.stringify(profile[key as keyof UserProfile]))
+    )
+    if (Object.keys(changes).length === 0) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/profile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Could not save your settings.')
+        return
+      }
+      setProfile(data.profile)
+      setDraft(data.profile)
+      setSaved(true)
+    } catch (error) {
+      console.error('Failed to save profile:', error)
+      setError('Could not save your settings.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const requestNotificationPermission = async () => {
+    if ('Notification' in window && Notification.permission === 'default') {
+      setPermission(await Notification.requestPermission())
+    }
+  }
+
+  const hasChanges = !!draft && !!profile && JSON.stringify(draft) !== JSON.stringify(profile)
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-8">
+      <div className="max-w-2xl w-full">
+        <button
+          onClick={() => router.push('/')}
+          className="mb-8 text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
+        >
+          ← Back to Home
+        </button>
+
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8">
+          <h1 className="text-3xl font-bold text-center mb-8">
+            ⚙️ Settings
+          </h1>
+
+          {isLoading ? (
+            <div className="text-center text-gray-500">Loading...</div>
+          ) : !draft ? (
+            <div className="text-center">
+              <div className="text-red-500 mb-4">{error}</div>
+              <button
+                onClick={fetchProfile}
+                className="text-blue-500 hover:underline"
+              >
+                Try again
+              </button>
+            </div>
+          ) : (
+            <>
+              {/* Daily Mantra */}
+              <Section title="✨ Daily Mantra">
+                <label className="flex flex-col gap-1 text-sm mb-4">
+                  <span className="text-gray-600 dark:text-gray-400">What are you focusing on?</span>
+                  <input
+                    type="text"
+                    value={draft.focusArea}
+                    maxLength={PROFILE_LIMITS.focusAreaLength}
+                    onChange={(e) => update({ focusArea: e.target.value })}
+                    placeholder="e.g. writing my thesis"
+                    className="p-2 rounded-lg border dark:bg-gray-700 dark:border-gray-600"
+                  />
+                </label>
+                <div className="text-sm text-gray-600 dark:text-gray-400 mb-1">Motivation style</div>
+                <div className="grid grid-cols-2 gap-2">
+                  {MOTIVATION_STYLES.map((style) => (
+                    <button
+                      key={style}
+                      onClick={() => update({ motivationStyle: style as MotivationStyle })}
+                      className={`py-2 px-3 rounded-lg text-sm font-semibold capitalize transition-colors ${
+                        draft.motivationStyle === style
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      {style}
+                    </button>
+                  ))}
+                </div>
+              </Section>
+
+              {/* Timer */}
+              <Section title="⏱️ Timer">
+                <label className="flex items-center justify-between gap-4 text-sm mb-4">
+                  <span className="text-gray-600 dark:text-gray-400">Default session length (min)</span>
+                  <input
+                    type="number"
+                    min={PROFILE_LIMITS.minMinutes}
+                    max={PROFILE_LIMITS.maxMinutes}
+                    value={draft.defaultDuration}
+                    onChange={(e) => update({ defaultDuration: Number(e.target.value) })}
+                    className="w-24 p-2 rounded-lg border dark:bg-gray-700 dark:border-gray-600"
+                  />
+                </label>
+                <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">Preset buttons</div>
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {draft.timerPresets.map((minutes) => (
+                    <span
+                      key={minutes}
+                      className="flex items-center gap-2 py-1 px-3 rounded-full bg-green-100 dark:bg-green-900/40 text-sm font-semibold"
+                    >
+                      {minutes} min
+                      {draft.timerPresets.length > 1 && (
+                        <button
+                          onClick={() => removePreset(minutes)}
+                          aria-label={`Remove ${minutes} minute preset`}
+                          className="text-gray-500 hover:text-red-500"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </div>
+                {draft.timerPresets.length < PROFILE_LIMITS.maxPresets && (
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min={PROFILE_LIMITS.minMinutes}
+                      max={PROFILE_LIMITS.maxMinutes}
+                      value={newPreset}
+                      onChange={(e) => setNewPreset(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && addPreset()}
+                      placeholder="Minutes"
+                      className="w-24 p-2 rounded-lg border text-sm dark:bg-gray-700 dark:border-gray-600"
+                    />
+                    <button
+                      onClick={addPreset}
+                      className="py-2 px-3 rounded-lg text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+                    >
+                      Add preset
+                    </button>
+                  </div>
+                )}
+              </Section>
+
+              {/* Notifications */}
+              <Section title="🔔 Notifications">
+                {NOTIFICATION_OPTIONS.map((option) => (
+                  <label key={option.key} className="flex items-center gap-2 text-sm mb-2">
+                    <input
+                      type="checkbox"
+                      checked={draft.notifications[option.key]}
+                      onChange={(e) => update({
+                        notifications: { ...draft.notifications, [option.key]: e.target.checked }
+                      })}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+                {permission === 'default' && (
+                  <button
+                    onClick={requestNotificationPermission}
+                    className="mt-2 text-sm text-blue-500 hover:underline"
+                  >
+                    Allow notifications in this browser
+                  </button>
+                )}
+                {permission === 'denied' && (
+                  <div className="mt-2 text-xs text-gray-500">
+                    Notifications are blocked for this site in your browser settings.
+                  </div>
+                )}
+              </Section>
+
+              {/* Timezone */}
+              <Section title="🌍 Timezone">
+                <label className="flex items-center gap-2 text-sm mb-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.timezoneAuto}
+                    onChange={(e) => update({ timezoneAuto: e.target.checked })}
+                  />
+                  Follow the device I focus on
+                </label>
+                <select
+                  value={draft.timezone}
+                  onChange={(e) => update({ timezone: e.target.value })}
+                  className="w-full p-2 rounded-lg border text-sm dark:bg-gray-700 dark:border-gray-600"
+                >
+                  {getTimezones(draft.timezone).map((zone) => (
+                    <option key={zone} value={zone}>{zone}</option>
+                  ))}
+                </select>
+                <div className="text-xs text-gray-500 mt-1">
+                  Streak and quest days end at midnight here. The day already counted keeps its zone.
+                </div>
+              </Section>
+
+              {error && (
+                <div className="mb-4 text-sm text-red-500">{error}</div>
+              )}
+              {isDemo && (
+                <div className="mb-4 text-xs text-gray-500">Demo mode - settings are not saved</div>
+              )}
+
+              <button
+                onClick={save}
+                disabled={!hasChanges || isSaving}
+                className="w-full py-3 rounded-lg font-bold bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50 transition-colors"
+              >
+                {isSaving ? 'Saving...' : saved && !hasChanges ? 'Saved ✓' : 'Save'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="mb-8">
+      <h2 className="font-semibold mb-3">{title}</h2>
+      {children}
+    </div>
+  )
+}
@@ -2,36 +2,109 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import { addDays, dayDiff } from '@/lib/timezones'
+import { DailyGoal, GoalProgress } from '@/lib/focus-goals'
+import { AchievementStatus } from '@/lib/achievements'
 
 interface StreakData {
   currentStreak: number
   longestStreak: number
-  lastCompleted: string
+  lastCompleted: string | null
   totalSessions: number
   thisWeek: number
   thisMonth: number
+  timezone: string
+  timezoneAuto: boolean
+  freezesAvailable: number
+  maxFreezes: number
+  freezeEveryDays: number
+  recentFreezes: { day: string; usedAt: string }[]
+  goal: DailyGoal
+  today: GoalProgress
 }
 
 export default function StreaksPage() {
   const router = useRouter()
-  const [streakData, setStreakData] = useState<StreakData>({
-    currentStreak: 7,
-    longestStreak: 14,
-    lastCompleted: new Date().toISOString().split('T')[0],
-    totalSessions: 156,
-    thisWeek: 5,
-    thisMonth: 22
-  })
+  const [streakData, setStreakData] = useState<StreakData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isDemo, setIsDemo] = useState(false)
+  const [goalDraft, setGoalDraft] = useState<DailyGoal | null>(null) // set while editing
+  const [goalError, setGoalError] = useState<string | null>(null)
 
-  // Simulate loading from API
   useEffect(() => {
-    // In production, this would fetch from Supabase
-    const savedStreak = localStorage.getItem('streakData')
-    if (savedStreak) {
-      setStreakData(JSON.parse(savedStreak))
-    }
+    fetchStreaks()
   }, [])
 
+  const fetchStreaks = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/streaks')
+      if (response.status === 401) {
+        setError('Sign in to see your streaks.')
+        return
+      }
+      if (!response.ok) {
+        throw new Error(`Streaks failed with status ${response.status}`)
+      }
+
+      const data = await response.json()
+      setIsDemo(data.status === 'demo')
+      setStreakData(data)
+    } catch (error) {
+      console.error('Failed to load streaks:', error)
+      setError('Could not load your streaks.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Count streak days in this device's timezone from now on, following it when travelling
+  const followDeviceTimezone = async () => {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+    try {
+      const response = await fetch('/api/streaks', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone, auto: true })
+      })
+      if (!response.ok) {
+        throw new Error(`Timezone update failed with status ${response.status}`)
+      }
+      await fetchStreaks()
+    } catch (error) {
+      console.error('Failed to update timezone:', error)
+    }
+  }
+
+  const saveGoal = async () => {
+    if (!goalDraft) return
+    setGoalError(null)
+    try {
+      const response = await fetch('/api/streaks/goal', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(goalDraft)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setGoalError(data.error || 'Could not save your goal.')
+        return
+      }
+      setGoalDraft(null)
+      await fetchStreaks()
+    } catch (error) {
+      console.error('Failed to save goal:', error)
+      setGoalError('Could not save your goal.')
+    }
+  }
+
+  const deviceTimezone = typeof Intl !== 'undefined'
+    ? Intl.DateTimeFormat().resolvedOptions().timeZone
+    : null
+
   const getStreakEmoji = (streak: number) => {
     if (streak >= 30) return '🔥🔥🔥'
     if (streak >= 14) return '🔥🔥'
@@ -72,102 +145,229 @@ export default function StreaksPage() {
             🔥 Your Streaks
           </h1>
 
-          {/* Current Streak Hero */}
-          <div className="text-center mb-8 p-6 bg-gradient-to-r from-orange-400 to-red-500 rounded-xl text-white">
-            <div className="text-6xl mb-2">{getStreakEmoji(streakData.currentStreak)}</div>
-            <div className="text-5xl font-bold mb-2">
-              {streakData.currentStreak}
-            </div>
-            <div className="text-lg">Day Streak</div>
-            <div className="text-sm mt-2 opacity-90">
-              Last completed: {streakData.lastCompleted}
-            </div>
-          </div>
+          {isLoading && (
+            <div className="text-center text-xl py-16 animate-pulse">Loading...</div>
+          )}
 
-          {/* Stats Grid */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
-            <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
-              <div className="text-2xl font-bold text-green-500">
-                {streakData.longestStreak}
-              </div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">
-                Longest Streak
-              </div>
+          {!isLoading && error && (
+            <div className="text-center py-16">
+              <div className="text-gray-600 dark:text-gray-400 mb-4">{error}</div>
+              <button
+                onClick={fetchStreaks}
+                className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-6 rounded-lg transition-colors"
+              >
+                Try again
+              </button>
             </div>
+          )}
 
-            <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
-              <div className="text-2xl font-bold text-blue-500">
-                {streakData.totalSessions}
-              </div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">
-                Total Sessions
-              </div>
-            </div>
+          {!isLoading && !error && streakData && (
+            <>
+              {isDemo && (
+                <div className="mb-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                  Demo mode - sample numbers, not your real streak
+                </div>
+              )}
 
-            <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
-              <div className="text-2xl font-bold text-purple-500">
-                {streakData.thisWeek}
-              </div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">
-                This Week
+              {/* Current Streak Hero */}
+              <div className="text-center mb-8 p-6 bg-gradient-to-r from-orange-400 to-red-500 rounded-xl text-white">
+                <div className="text-6xl mb-2">{getStreakEmoji(streakData.currentStreak)}</div>
+                <div className="text-5xl font-bold mb-2">
+                  {streakData.currentStreak}
+                </div>
+                <div className="text-lg">Day Streak</div>
+                <div className="text-sm mt-2 opacity-90">
+                  Last completed: {streakData.lastCompleted || 'Never'}
+                </div>
+                <div className="text-xs mt-1 opacity-75">
+                  Days end at midnight in {streakData.timezone}
+                </div>
               </div>
-            </div>
 
-            <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
-              <div className="text-2xl font-bold text-orange-500">
-                {streakData.thisMonth}
-              </div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">
-                This Month
-              </div>
-            </div>
-          </div>
+              {deviceTimezone && (!streakData.timezoneAuto || streakData.timezone !== deviceTimezone) && (
+                <div className="mb-8 text-center text-sm text-gray-600 dark:text-gray-400">
+                  This device is on {deviceTimezone}.{' '}
+                  <button
+                    onClick={followDeviceTimezone}
+                    className="underline hover:text-gray-900 dark:hover:text-gray-100"
+                  >
+                    Follow my device&apos;s timezone
+                  </button>
+                </div>
+              )}
 
-          {/* Rank Section */}
-          <div className="mb-8 p-6 bg-gray-100 dark:bg-gray-700 rounded-xl">
-            <div className="text-center">
-              <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                Your Rank
-              </div>
-              <div className={`text-3xl font-bold ${getRankColor(streakData.totalSessions)}`}>
-                {getRankTitle(streakData.totalSessions)}
+              {/* Stats Grid */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-green-500">
+                    {streakData.longestStreak}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    Longest Streak
+                  </div>
+                </div>
+
+                <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-blue-500">
+                    {streakData.totalSessions}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    Total Sessions
+                  </div>
+                </div>
+
+                <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-purple-500">
+                    {streakData.thisWeek}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    This Week
+                  </div>
+                </div>
+
+                <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-orange-500">
+                    {streakData.thisMonth}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    This Month
+                  </div>
+                </div>
               </div>
-              <div className="mt-4">
-                <div className="bg-gray-200 dark:bg-gray-600 rounded-full h-4 overflow-hidden">
-                  <div
-                    className="bg-gradient-to-r from-green-400 to-blue-500 h-full transition-all duration-500"
-                    style={{
-                      width: `${Math.min((streakData.totalSessions / 500) * 100, 100)}%`
-                    }}
-                  />
+
+              {/* Daily Goal */}
+              <div className="mb-8 p-6 bg-gray-100 dark:bg-gray-700 rounded-xl">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <div className="font-semibold">🎯 Daily Goal</div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      A day counts toward your streak once you reach {streakData.goal.target} {streakData.goal.type === 'minutes' ? 'focus minutes' : streakData.goal.target === 1 ? 'session' : 'sessions'}
+                    </div>
+                  </div>
+                  {!goalDraft && (
+                    <button
+                      onClick={() => setGoalDraft(streakData.goal)}
+                      className="text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
+                    >
+                      Change
+                    </button>
+                  )}
                 </div>
-                <div className="text-xs text-gray-500 mt-2">
-                  {streakData.totalSessions} / 500 sessions to Master
+
+                {goalDraft ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={goalDraft.target}
+                      onChange={(e) => setGoalDraft({ ...goalDraft, target: Number(e.target.value) })}
+                      className="w-24 rounded-lg bg-white dark:bg-gray-800 px-3 py-2"
+                    />
+                    <select
+                      value={goalDraft.type}
+                      onChange={(e) => setGoalDraft({ ...goalDraft, type: e.target.value as DailyGoal['type'] })}
+                      className="rounded-lg bg-white dark:bg-gray-800 px-3 py-2"
+                    >
+                      <option value="minutes">minutes</option>
+                      <option value="sessions">sessions</option>
+                    </select>
+                    <button
+                      onClick={saveGoal}
+                      className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => {
+                        setGoalDraft(null)
+                        setGoalError(null)
+                      }}
+                      className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                    >
+                      Cancel
+                    </button>
+                    {goalError && (
+                      <div className="w-full text-sm text-red-500">{goalError}</div>
+                    )}
+                    <div className="w-full text-xs text-gray-500">
+                      A new goal applies from today; past days keep the goal they were earned under.
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="bg-gray-200 dark:bg-gray-600 rounded-full h-4 overflow-hidden">
+                      <div
+                        className={`h-full transition-all duration-500 ${streakData.today.met ? 'bg-green-500' : 'bg-blue-500'}`}
+                        style={{ width: `${Math.min(streakData.today.done / streakData.today.target, 1) * 100}%` }}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500 mt-2">
+                      Today: {streakData.today.done} / {streakData.today.target} {streakData.goal.type === 'minutes' ? 'min' : 'sessions'}
+                      {streakData.today.met && ' • goal met ✓'}
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {/* Streak Freezes */}
+              <div className="mb-8 p-6 bg-cyan-50 dark:bg-cyan-900/20 border border-cyan-200 dark:border-cyan-800 rounded-xl">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-semibold text-cyan-900 dark:text-cyan-100">
+                      🧊 Streak Freezes
+                    </div>
+                    <div className="text-sm text-cyan-700 dark:text-cyan-300 mt-1">
+                      A freeze covers a missed day automatically. Earn one every {streakData.freezeEveryDays} days in a row.
+                    </div>
+                  </div>
+                  <div className="text-2xl font-bold text-cyan-600 dark:text-cyan-300">
+                    {streakData.freezesAvailable} / {streakData.maxFreezes}
+                  </div>
                 </div>
+                {streakData.recentFreezes.length > 0 && (
+                  <ul className="mt-4 text-sm text-cyan-800 dark:text-cyan-200 space-y-1">
+                    {streakData.recentFreezes.map((freeze) => (
+                      <li key={freeze.day}>
+                        Freeze used to cover {freeze.day}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
-            </div>
-          </div>
 
-          {/* Calendar View (Simplified) */}
-          <div className="mb-8">
-            <h3 className="font-semibold mb-4">This Week&apos;s Activity</h3>
-            <div className="grid grid-cols-7 gap-2">
-              {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map((day, i) => (
-                <div key={day} className="text-center">
-                  <div className="text-xs text-gray-500 mb-2">{day}</div>
-                  <div
-                    className={`w-10 h-10 rounded-lg mx-auto flex items-center justify-center ${
-                      i < streakData.thisWeek
-                        ? 'bg-green-500 text-white'
-                        : 'bg-gray-200 dark:bg-gray-700'
-                    }`}
-                  >
-                    {i < streakData.thisWeek ? '✓' : ''}
+              {/* Rank Section */}
+              <div className="mb-8 p-6 bg-gray-100 dark:bg-gray-700 rounded-xl">
+                <div className="text-center">
+                  <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                    Your Rank
+                  </div>
+                  <div className={`text-3xl font-bold ${getRankColor(streakData.totalSessions)}`}>
+                    {getRankTitle(streakData.totalSessions)}
+                  </div>
+                  <div className="mt-4">
+                    <div className="bg-gray-200 dark:bg-gray-600 rounded-full h-4 overflow-hidden">
+                      <div
+                        className="bg-gradient-to-r from-green-400 to-blue-500 h-full transition-all duration-500"
+                        style={{
+                          width: `${Math.min((streakData.totalSessions / 500) * 100, 100)}%`
+                        }}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500 mt-2">
+                      {streakData.totalSessions} / 500 sessions to Master
+                    </div>
                   </div>
                 </div>
-              ))}
-            </div>
-          </div>
+              </div>
+
+              {/* Badges */}
+              <BadgeGallery />
+
+              {/* Focus Heatmap */}
+              <FocusHeatmap />
+
+            </>
+          )}
 
           {/* Cheat Prevention Notice */}
           <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
@@ -188,4 +388,295 @@ export default function StreaksPage() {
       </div>
     </main>
   )
+}
+
+interface FocusDay {
+  day: string
+  minutes: number
+  sessions: number
+}
+
+interface FocusSession {
+  id: string
+  startTime: string
+  endTime: string
+  minutes: number
+  task: string | null
+  project: string | null
+}
+
+interface CalendarData {
+  timezone: string
+  today: string
+  start: string
+  end: string
+  days: FocusDay[]
+}
+
+const HEAT_COLORS = [
+  'bg-gray-200 dark:bg-gray-700',
+  'bg-green-200 dark:bg-green-900',
+  'bg-green-400 dark:bg-green-700',
+  'bg-green-500 dark:bg-green-500',
+  'bg-green-700 dark:bg-green-300'
+]
+
+// Intensity step for a day's validated focus minutes
+const getHeatLevel = (minutes: number) => {
+  if (minutes === 0) return 0
+  if (minutes < 25) return 1
+  if (minutes < 50) return 2
+  if (minutes < 100) return 3
+  return 4
+}
+
+const formatMonth = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString([], { month: 'short', timeZone: 'UTC' })
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString([], {
+    weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC'
+  })
+
+// GitHub-style year of focus, one column per week starting Monday
+function FocusHeatmap() {
+  const [end, setEnd] = useState<string | null>(null)
+  const [calendar, setCalendar] = useState<CalendarData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState(false)
+  const [hovered, setHovered] = useState<FocusDay | null>(null)
+  const [selected, setSelected] = useState<FocusDay | null>(null)
+  const [daySessions, setDaySessions] = useState<FocusSession[] | null>(null)
+
+  useEffect(() => {
+    const fetchCalendar = async () => {
+      setIsLoading(true)
+      setError(false)
+      try {
+        const response = await fetch(`/api/streaks/calendar${end ? `?end=${end}` : ''}`)
+        if (!response.ok) {
+          throw new Error(`Calendar failed with status ${response.status}`)
+        }
+        setCalendar(await response.json())
+      } catch (error) {
+        console.error('Failed to load focus calendar:', error)
+        setError(true)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchCalendar()
+  }, [end])
+
+  const selectDay = async (focusDay: FocusDay) => {
+    setSelected(focusDay)
+    setDaySessions(null)
+    if (focusDay.sessions === 0) {
+      setDaySessions([])
+      return
+    }
+    try {
+      const response = await fetch(`/api/streaks/calendar/${focusDay.day}`)
+      if (!response.ok) {
+        throw new Error(`Day lookup failed with status ${response.status}`)
+      }
+      const data = await response.json()
+      setDaySessions(data.sessions)
+    } catch (error) {
+      console.error('Failed to load focus day:', error)
+      setDaySessions([])
+    }
+  }
+
+  if (!calendar) {
+    return (
+      <div className="mb-8 text-center text-sm text-gray-500">
+        {error ? 'Could not load your focus calendar.' : isLoading ? 'Loading...' : null}
+      </div>
+    )
+  }
+
+  const byDay = new Map(calendar.days.map((focusDay) => [focusDay.day, focusDay]))
+  const getFocusDay = (day: string) => byDay.get(day) || { day, minutes: 0, sessions: 0 }
+  const weeks = Math.floor(dayDiff(calendar.start, calendar.end) / 7) + 1
+  const totalMinutes = calendar.days.reduce((total, focusDay) => total + focusDay.minutes, 0)
+  const shown = hovered || selected
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold">
+          {formatMonth(calendar.start)} {calendar.start.slice(0, 4)} - {formatMonth(calendar.end)} {calendar.end.slice(0, 4)}
+        </h3>
+        <div className="flex gap-2 text-sm">
+          <button
+            onClick={() => setEnd(addDays(calendar.start, -1))}
+            disabled={isLoading}
+            className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100 disabled:opacity-50"
+          >
+            ← Earlier
+          </button>
+          <button
+            onClick={() => {
+              const later = addDays(calendar.end, 53 * 7)
+              setEnd(later < calendar.today ? later : null)
+            }}
+            disabled={isLoading || calendar.end >= calendar.today}
+            className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100 disabled:opacity-50"
+          >
+            Later →
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="inline-flex gap-[3px]" onMouseLeave={() => setHovered(null)}>
+          {Array.from({ length: weeks }, (_, week) => {
+            const monday = addDays(calendar.start, week * 7)
+            const newMonth = week === 0 || formatMonth(monday) !== formatMonth(addDays(monday, -7))
+            return (
+              <div key={monday} className="flex flex-col gap-[3px]">
+                <div className="h-4 text-[10px] text-gray-500 whitespace-nowrap">
+                  {newMonth ? formatMonth(monday) : ''}
+                </div>
+                {Array.from({ length: 7 }, (_, weekday) => {
+                  const day = addDays(monday, weekday)
+                  if (day > calendar.end) {
+                    return <div key={day} className="w-3 h-3" />
+                  }
+                  const focusDay = getFocusDay(day)
+                  return (
+                    <button
+                      key={day}
+                      title={`${formatDay(day)}: ${focusDay.minutes} min`}
+                      onMouseEnter={() => setHovered(focusDay)}
+                      onClick={() => selectDay(focusDay)}
+                      className={`w-3 h-3 rounded-sm ${HEAT_COLORS[getHeatLevel(focusDay.minutes)]} ${
+                        selected?.day === day ? 'ring-2 ring-blue-500' : ''
+                      }`}
+                    />
+                  )
+                })}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+        <div>
+          {shown
+            ? `${formatDay(shown.day)}: ${shown.minutes} min in ${shown.sessions} session${shown.sessions === 1 ? '' : 's'}`
+            : `${totalMinutes} focus minutes • days in ${calendar.timezone}`}
+        </div>
+        <div className="flex items-center gap-1">
+          Less
+          {HEAT_COLORS.map((color) => (
+            <div key={color} className={`w-3 h-3 rounded-sm ${color}`} />
+          ))}
+          More
+        </div>
+      </div>
+
+      {/* Sessions on the tapped day */}
+      {selected && (
+        <div className="mt-4 p-4 bg-gray-100 dark:bg-gray-700 rounded-lg text-sm">
+          <div className="font-semibold mb-2">{formatDay(selected.day)}</div>
+          {daySessions === null && <div className="animate-pulse">Loading...</div>}
+          {daySessions?.length === 0 && (
+            <div className="text-gray-600 dark:text-gray-400">No validated sessions</div>
+          )}
+          {daySessions && daySessions.length > 0 && (
+            <ul className="space-y-1">
+              {daySessions.map((session) => (
+                <li key={session.id} className="flex justify-between gap-4">
+                  <span>
+                    {new Date(session.startTime).toLocaleTimeString([], {
+                      hour: '2-digit', minute: '2-digit', timeZone: calendar.timezone
+                    })}
+                    {' '}{session.task || 'Focus session'}
+                    {session.project && <span className="text-gray-500"> • {session.project}</span>}
+                  </span>
+                  <span className="text-gray-600 dark:text-gray-400">{session.minutes} min</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function BadgeGallery() {
+  const [achievements, setAchievements] = useState<AchievementStatus[] | null>(null)
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    const fetchAchievements = async () => {
+      try {
+        const response = await fetch('/api/achievements')
+        if (!response.ok) {
+          throw new Error(`Achievements failed with status ${response.status}`)
+        }
+        setAchievements((await response.json()).achievements)
+      } catch (error) {
+        console.error('Failed to load achievements:', error)
+        setError(true)
+      }
+    }
+    fetchAchievements()
+  }, [])
+
+  if (error) return null
+
+  const unlocked = achievements?.filter((achievement) => achievement.unlockedAt).length || 0
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-xl font-semibold">Badges</h2>
+        {achievements && (
+          <span className="text-sm text-gray-500">
+            {unlocked} of {achievements.length} unlocked
+          </span>
+        )}
+      </div>
+      {!achievements ? (
+        <div className="text-center text-gray-500 py-4">Loading badges...</div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {achievements.map((achievement) => (
+            <div
+              key={achievement.id}
+              title={achievement.description}
+              className={`p-4 rounded-xl text-center ${
+                achievement.unlockedAt
+                  ? 'bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800'
+                  : 'bg-gray-100 dark:bg-gray-700 opacity-60'
+              }`}
+            >
+              <div className={`text-3xl mb-1 ${achievement.unlockedAt ? '' : 'grayscale'}`}>
+                {achievement.icon}
+              </div>
+              <div className="text-sm font-semibold">{achievement.title}</div>
+              <div className="text-xs text-gray-500 mt-1">{achievement.description}</div>
+              {achievement.unlockedAt ? (
+                <div className="text-xs text-yellow-700 dark:text-yellow-300 mt-2">
+                  {new Date(achievement.unlockedAt).toLocaleDateString()}
+                </div>
+              ) : (
+                <div className="mt-2 bg-gray-200 dark:bg-gray-600 rounded-full h-1.5 overflow-hidden">
+                  <div
+                    className="bg-blue-500 h-full"
+                    style={{ width: `${achievement.progress * 100}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
 }
\ No newline at end of file
@@ -2,14 +2,170 @@
 
 import { useState, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
+import {
+  CycleConfig,
+  CycleState,
+  DEFAULT_CYCLE,
+  PHASE_LABELS,
+  getNextPhase,
+  getPhaseDuration,
+  isBreakPhase,
+  validateCycleConfig
+} from '@/lib/pomodoro'
+import {
+  TimerEvent,
+  TimerState,
+  getRemaining,
+  replayTimerEvents
+} from '@/lib/timer-engine'
+import {
+  ABANDON_REASONS,
+  AbandonReason,
+  CompletionStats,
+  InterruptionKind
+} from '@/lib/focus-metrics'
+import { DailyGoal, GoalProgress } from '@/lib/focus-goals'
+import { UnlockedAchievement } from '@/lib/achievements'
+import { DEFAULT_PROFILE, NotificationPreferences } from '@/lib/user-profile'
+
+interface StartedSession {
+  status: 'started' | 'demo'
+  sessionId: string
+  userId: string
+  token?: string // signs this session's heartbeats
+  heartbeatSeq?: number
+  startTime: number
+  serverTime: number
+  duration: number
+  phase: CycleState['phase']
+  task: string | null
+  project: string | null
+}
+
+// A session as the server describes it to other devices
+interface ActiveSession {
+  sessionId: string
+  deviceId: string | null
+  deviceName: string | null
+  startTime: number
+  duration: number
+  events: TimerEvent[]
+  task: string | null
+  project: string | null
+  cycleId: string | null
+  cycleRound: number | null
+  cycleConfig: CycleConfig | null
+  heartbeatSeq: number
+}
+
+// Taking over keeps the running session, so it comes back described like one
+interface TakenOverSession extends ActiveSession {
+  status: 'taken_over'
+  userId: string
+  token: string
+  serverTime: number
+  phase: 'work'
+}
+
+type StartResponse = StartedSession | TakenOverSession
+
+type ConflictResolution = 'takeover' | 'cancel_other'
+
+// Background Sync isn't in the DOM typings yet
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> }
+}
+
+interface TagSuggestions {
+  tasks: string[]
+  projects: string[]
+}
+
+interface SavedTimerState {
+  sessionId: string
+  clockOffset: number // server ms - client ms
+  events: TimerEvent[]
+  cycle: CycleState | null
+  cycleId: string | null
+  task: string | null
+  project: string | null
+}
+
+const serverNow = (state: SavedTimerState) => Date.now() + state.clockOffset
+
+// Engine state replayed from the saved event log, as of now
+const getTimer = (state: SavedTimerState): TimerState =>
+  replayTimerEvents(state.events, serverNow(state))
+
+// Offset between server and client clocks, measured at the midpoint of the request
+const measureClockOffset = (serverTime: number, requestedAt: number) =>
+  serverTime - Math.round((requestedAt + Date.now()) / 2)
+
+// Stable per-browser ID so the server knows which device owns a session
+function getDevice() {
+  let deviceId = localStorage.getItem('deviceId')
+  if (!deviceId) {
+    deviceId = crypto.randomUUID()
+    localStorage.setItem('deviceId', deviceId)
+  }
+  return { deviceId, deviceName: describeDevice() }
+}
+
+function describeDevice(): string {
+  const ua = navigator.userAgent
+  const os = /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Android/.test(ua) ? 'Android'
+    : /Mac/.test(ua) ? 'Mac'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'unknown device'
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser'
+  return `${browser} on ${os}`
+}
+
+function stateFromActiveSession(active: ActiveSession, clockOffset: number): SavedTimerState {
+  return {
+    sessionId: active.sessionId,
+    clockOffset,
+    events: active.events,
+    cycle: active.cycleConfig
+      ? { config: active.cycleConfig, phase: 'work', round: active.cycleRound || 1 }
+      : null,
+    cycleId: active.cycleId,
+    task: active.task,
+    project: active.project
+  }
+}
 
 export default function TimerPage() {
   const [duration, setDuration] = useState(25) // minutes
   const [timeLeft, setTimeLeft] = useState(0) // seconds
   const [isRunning, setIsRunning] = useState(false)
   const [customDuration, setCustomDuration] = useState('')
+  const [mode, setMode] = useState<'single' | 'cycle'>('single')
+  const [cycleConfig, setCycleConfig] = useState<CycleConfig>(DEFAULT_CYCLE)
+  const [cycle, setCycle] = useState<CycleState | null>(null)
+  const [task, setTask] = useState('')
+  const [project, setProject] = useState('')
+  const [suggestions, setSuggestions] = useState<TagSuggestions>({ tasks: [], projects: [] })
+  const [showAbandon, setShowAbandon] = useState(false)
+  const [interruptions, setInterruptions] = useState<Record<InterruptionKind, number>>({ internal: 0, external: 0 })
+  const [stats, setStats] = useState<(CompletionStats & { windowDays: number }) | null>(null)
+  const [goal, setGoal] = useState<{ goal: DailyGoal; progress: GoalProgress } | null>(null)
+  const [conflict, setConflict] = useState<{ session: ActiveSession; minutesLeft: number } | null>(null)
+  const [ownerDevice, setOwnerDevice] = useState<string | null>(null) // set while mirroring another device
+  const [newBadges, setNewBadges] = useState<UnlockedAchievement[]>([])
+  const [presets, setPresets] = useState<number[]>(DEFAULT_PROFILE.timerPresets)
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  // Read by completion handlers registered on mount, so kept in a ref
+  const notificationsRef = useRef<NotificationPreferences>(DEFAULT_PROFILE.notifications)
   const workerRef = useRef<ServiceWorker | null>(null)
+  const timerStateRef = useRef<SavedTimerState | null>(null)
+  const ownerDeviceRef = useRef<string | null>(null) // ownerDevice for handlers set up on mount
   const router = useRouter()
 
   useEffect(() => {
@@ -18,25 +174,89 @@ export default function TimerPage() {
       navigator.serviceWorker.ready.then((registration) => {
         workerRef.current = registration.active
       })
+
+      // The service worker advances cycles while the page is in the background
+      navigator.serviceWorker.addEventListener('message', handleWorkerMessage)
     }
 
     return () => {
       if (intervalRef.current) {
         clearInterval(intervalRef.current)
       }
+      if ('serviceWorker' in navigator) {
+        navigator.serviceWorker.removeEventListener('message', handleWorkerMessage)
+      }
     }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // Recent tags for autocomplete
+  useEffect(() => {
+    fetch('/api/timer/tags')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data) {
+          setSuggestions({ tasks: data.tasks || [], projects: data.projects || [] })
+        }
+      })
+      .catch(() => {})
+  }, [])
+
+  const loadStats = () => {
+    fetch('/api/timer/stats')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data && data.status !== 'demo') {
+          setStats(data)
+        }
+      })
+      .catch(() => {})
+  }
+
+  const loadGoal = () => {
+    fetch('/api/streaks/goal')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data && data.status !== 'demo') {
+          setGoal(data)
+        }
+      })
+      .catch(() => {})
+  }
+
+  useEffect(() => {
+    loadStats()
+    loadGoal()
   }, [])
 
+  // Presets, default length and notification choices from Settings
   useEffect(() => {
-    if (isRunning && timeLeft > 0) {
+    fetch('/api/profile')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data?.profile) return
+        setPresets(data.profile.timerPresets)
+        notificationsRef.current = data.profile.notifications
+        // A restored session already set its own length
+        if (!timerStateRef.current) {
+          setDuration(data.profile.defaultDuration)
+        }
+      })
+      .catch(() => {})
+  }, [])
+
+  // Re-derive the countdown from the engine each second instead of decrementing it
+  useEffect(() => {
+    if (isRunning) {
       intervalRef.current = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            handleComplete()
-            return 0
-          }
-          return prev - 1
-        })
+        const state = timerStateRef.current
+        if (!state) return
+
+        const timer = getTimer(state)
+        setTimeLeft(Math.ceil(getRemaining(timer, serverNow(state)) / 1000))
+        if (timer.status === 'completed') {
+          handleComplete()
+        }
       }, 1000)
     } else {
       if (intervalRef.current) {
@@ -50,69 +270,415 @@ export default function TimerPage() {
       }
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isRunning, timeLeft])
+  }, [isRunning])
+
+  const startTimer = async (onConflict: ConflictResolution | null = null) => {
+    setConflict(null)
+    if (mode === 'cycle') {
+      const error = validateCycleConfig(cycleConfig)
+      if (error) {
+        alert(error)
+        return
+      }
+      await startPhase({ config: cycleConfig, phase: 'work', round: 1 }, crypto.randomUUID(), task, project, onConflict)
+    } else {
+      await startPhase(null, null, task, project, onConflict)
+    }
+  }
 
-  const startTimer = () => {
-    const seconds = duration * 60
-    setTimeLeft(seconds)
-    setIsRunning(true)
+  // Starts a single session, or one phase of a Pomodoro cycle
+  const startPhase = async (
+    nextCycle: CycleState | null,
+    cycleId: string | null,
+    taskLabel: string | null,
+    projectLabel: string | null,
+    onConflict: ConflictResolution | null = null
+  ) => {
+    const seconds = nextCycle ? getPhaseDuration(nextCycle.config, nextCycle.phase) : duration * 60
+    const requestedAt = Date.now()
+
+    // Ask the server to create the session and stamp the start time
+    let session: StartResponse
+    try {
+      const response = await fetch('/api/timer/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          duration: seconds,
+          phase: nextCycle?.phase ?? 'work',
+          cycleId,
+          round: nextCycle?.round ?? null,
+          cycleConfig: nextCycle?.config ?? null,
+          task: taskLabel,
+          project: projectLabel,
+          ...getDevice(),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          onConflict
+        })
+      })
+
+      // Another device is running a session: let the user decide
+      if (response.status === 409) {
+        const { activeSession, serverTime } = await response.json()
+        const timer = replayTimerEvents(activeSession.events, serverTime)
+        setConflict({
+          session: activeSession,
+          minutesLeft: Math.ceil(getRemaining(timer, serverTime) / 60000)
+        })
+        return
+      }
+      if (!response.ok) {
+        throw new Error(`Start failed with status ${response.status}`)
+      }
+      session = await response.json()
+    } catch (error) {
+      console.error('Failed to start session:', error)
+      alert('Could not start a focus session. Please check your connection and sign in.')
+      return
+    }
+
+    const clockOffset = measureClockOffset(session.serverTime, requestedAt)
+    const state: SavedTimerState = session.status === 'taken_over'
+      ? stateFromActiveSession(session, clockOffset)
+      : {
+          sessionId: session.sessionId,
+          clockOffset,
+          events: [{ type: 'start', at: session.startTime, durationMs: session.duration * 1000 }],
+          cycle: nextCycle,
+          cycleId,
+          task: session.task ?? taskLabel ?? null,
+          project: session.project ?? projectLabel ?? null
+        }
 
     // Send to service worker
     if (workerRef.current) {
       workerRef.current.postMessage({
         type: 'START_TIMER',
         data: {
-          duration: seconds,
-          startTime: Date.now(),
-          serverTime: Date.now(),
-          userId: 'demo-user'
+          ...state,
+          ...getDevice(),
+          serverTime: session.serverTime,
+          userId: session.userId,
+          token: session.token,
+          heartbeatSeq: session.heartbeatSeq ?? 0,
+          notifications: notificationsRef.current
         }
       })
     }
 
     // Save to localStorage as backup
-    localStorage.setItem('timerState', JSON.stringify({
-      startTime: Date.now(),
-      duration: seconds,
-      isRunning: true
-    }))
+    setInterruptions({ internal: 0, external: 0 })
+    setOwnerDevice(null)
+    applyTimerState(state)
   }
 
-  const pauseTimer = () => {
-    setIsRunning(false)
+  // Mirrors a timer state (ours, the service worker's or another device's) into the UI
+  const applyTimerState = (state: SavedTimerState, persist = true) => {
+    const timer = getTimer(state)
+    if (persist) {
+      saveTimerState(state)
+    } else {
+      timerStateRef.current = state
+    }
+    setCycle(state.cycle)
+    setTask(state.task || '')
+    setProject(state.project || '')
+    if (state.cycle) {
+      setMode('cycle')
+      setCycleConfig(state.cycle.config)
+    } else {
+      setDuration(Math.ceil(timer.durationMs / 60000))
+    }
+    setTimeLeft(Math.ceil(getRemaining(timer, serverNow(state)) / 1000))
+    setIsRunning(timer.status === 'running')
+  }
+
+  const handleWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'TIMER_ADVANCED' && event.data.state) {
+      applyTimerState(event.data.state)
+    }
+    if (event.data?.type === 'SESSION_MOVED') {
+      handleSessionMoved(event.data.ownerDeviceName)
+    }
+    if (event.data?.type === 'ACHIEVEMENTS_UNLOCKED') {
+      setNewBadges((badges) => [...badges, ...event.data.achievements])
+    }
+  }
+
+  // Another device took the session over: keep showing it, read-only
+  const handleSessionMoved = (deviceName: string | null) => {
+    setOwnerDevice(deviceName || 'another device')
+    localStorage.removeItem('timerState')
+    syncActiveSession()
+  }
+
+  // Follows the server's view of the active session across devices
+  const syncActiveSession = async () => {
+    const requestedAt = Date.now()
+    let data
+    try {
+      const response = await fetch(`/api/timer/active?deviceId=${encodeURIComponent(getDevice().deviceId)}`)
+      if (!response.ok) return
+      data = await response.json()
+    } catch {
+      return
+    }
+    if (data.status === 'demo') return
+
+    const local = timerStateRef.current
+    const active: ActiveSession | null = data.activeSession
+    if (!active) {
+      // Our focus session was cancelled or finished elsewhere
+      if (local && (!local.cycle || !isBreakPhase(local.cycle.phase))) {
+        stopTimer()
+      }
+      return
+    }
+
+    const state = stateFromActiveSession(active, measureClockOffset(data.serverTime, requestedAt))
+    const owned = !active.deviceId || active.deviceId === getDevice().deviceId
+
+    if (owned) {
+      if (local?.sessionId !== active.sessionId) {
+        // Ours, but this browser lost track of it
+        workerRef.current?.postMessage({
+          type: 'START_TIMER',
+          data: {
+            ...state,
+            ...getDevice(),
+            serverTime: data.serverTime,
+            userId: data.userId,
+            token: data.token,
+            heartbeatSeq: active.heartbeatSeq,
+            notifications: notificationsRef.current
+          }
+        })
+        setOwnerDevice(null)
+        applyTimerState(state)
+      }
+      return
+    }
+
+    setOwnerDevice(active.deviceName || 'another device')
+    applyTimerState(state, false)
+  }
+
+  useEffect(() => {
+    syncActiveSession()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // While mirroring, keep up with the owner's pauses and resumes
+  useEffect(() => {
+    ownerDeviceRef.current = ownerDevice
+    if (!ownerDevice) return
+    const poll = setInterval(syncActiveSession, 30000)
+    return () => clearInterval(poll)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ownerDevice])
+
+  // Moves a cycle to its next phase; the service worker does it when available
+  const advanceCycle = async (state: SavedTimerState) => {
+    if (!state.cycle) return
+
+    const controller = navigator.serviceWorker?.controller
+    if (controller) {
+      controller.postMessage({
+        type: 'ADVANCE_CYCLE',
+        data: { sessionId: state.sessionId }
+      })
+      return
+    }
+
+    await startPhase(getNextPhase(state.cycle), state.cycleId, state.task, state.project)
+  }
+
+  const saveTimerState = (state: SavedTimerState | null) => {
+    timerStateRef.current = state
+    if (state) {
+      localStorage.setItem('timerState', JSON.stringify(state))
+    } else {
+      localStorage.removeItem('timerState')
+    }
+  }
+
+  const postTimerAction = async (action: 'pause' | 'resume', sessionId: string) => {
+    try {
+      const response = await fetch(`/api/timer/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, deviceId: getDevice().deviceId })
+      })
+      if (response.status === 409) {
+        const { ownerDeviceName } = await response.json()
+        handleSessionMoved(ownerDeviceName)
+        return { moved: true }
+      }
+      return response.ok ? await response.json() : null
+    } catch (error) {
+      console.error(`Failed to record ${action}:`, error)
+      return null
+    }
+  }
+
+  // Appends a pause/resume to the log, using the server's timestamp when it answers
+  const recordTimerAction = async (action: 'pause' | 'resume') => {
+    const state = timerStateRef.current
+    if (!state) return
+
+    // Breaks aren't tracked server-side, so they pause locally
+    const serverTracked = !state.cycle || !isBreakPhase(state.cycle.phase)
+    const result = serverTracked ? await postTimerAction(action, state.sessionId) : null
+    if (result?.moved) return
+    // The server found the session already over, so there's nothing to pause
+    if (action === 'pause' && result?.status === 'completed') {
+      handleComplete()
+      return
+    }
+
+    let at = serverNow(state)
+    if (action === 'pause' && result?.pausedAt) {
+      at = result.pausedAt
+    } else if (result?.serverTime) {
+      at = result.serverTime
+    }
+
+    const event: TimerEvent = { type: action, at }
+    const updated = { ...state, events: [...state.events, event] }
+    saveTimerState(updated)
+
+    const timer = getTimer(updated)
+    setTimeLeft(Math.ceil(getRemaining(timer, serverNow(updated)) / 1000))
+    setIsRunning(timer.status === 'running')
+
     if (workerRef.current) {
       workerRef.current.postMessage({
-        type: 'STOP_TIMER'
+        type: action === 'pause' ? 'PAUSE_TIMER' : 'RESUME_TIMER',
+        data: { event, token: result?.token }
       })
     }
-    localStorage.removeItem('timerState')
   }
 
+  const pauseTimer = async () => {
+    setIsRunning(false)
+    await recordTimerAction('pause')
+  }
+
+  const resumeTimer = async () => {
+    await recordTimerAction('resume')
+  }
+
+  // Focus sessions are abandoned with a reason; breaks just stop
   const resetTimer = () => {
+    const state = timerStateRef.current
+    if (state && (!state.cycle || !isBreakPhase(state.cycle.phase))) {
+      setShowAbandon(true)
+      return
+    }
+    stopTimer()
+  }
+
+  const abandonTimer = async (reason: AbandonReason) => {
+    const state = timerStateRef.current
+    setShowAbandon(false)
+
+    if (state) {
+      try {
+        await fetch('/api/timer/abandon', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sessionId: state.sessionId, reason, deviceId: getDevice().deviceId })
+        })
+      } catch (error) {
+        console.error('Failed to record abandonment:', error)
+      }
+    }
+
+    stopTimer()
+    loadStats()
+  }
+
+  const logInterruption = async (kind: InterruptionKind) => {
+    const state = timerStateRef.current
+    if (!state) return
+
+    // Count locally right away; the server's tally wins when it answers
+    setInterruptions((prev) => ({ ...prev, [kind]: prev[kind] + 1 }))
+
+    try {
+      const response = await fetch('/api/timer/interruption', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: state.sessionId, kind })
+      })
+      const result = await response.json()
+      if (response.ok && result.counts) {
+        setInterruptions(result.counts)
+      }
+    } catch (error) {
+      console.error('Failed to log interruption:', error)
+    }
+  }
+
+  const stopTimer = () => {
     setIsRunning(false)
     setTimeLeft(0)
+    setCycle(null)
+    setOwnerDevice(null)
     if (workerRef.current) {
       workerRef.current.postMessage({
         type: 'STOP_TIMER'
       })
     }
-    localStorage.removeItem('timerState')
+    saveTimerState(null)
   }
 
   const handleComplete = () => {
+    // The owning device reports completion, not a mirror
+    if (ownerDeviceRef.current) {
+      stopTimer()
+      return
+    }
+
     setIsRunning(false)
+    const state = timerStateRef.current
+    const phase = state?.cycle?.phase ?? 'work'
+    const minutes = state ? Math.ceil(getTimer(state).durationMs / 60000) : duration
 
-    // Show notification
-    if ('Notification' in window && Notification.permission === 'granted') {
-      new Notification('Focus Session Complete!', {
-        body: `Great job! You completed a ${duration} minute focus session.`,
+    // Let the service worker report the completion, even if we're offline
+    if ('serviceWorker' in navigator && phase === 'work') {
+      navigator.serviceWorker.ready
+        .then((registration: SyncRegistration) => registration.sync?.register('timer-complete'))
+        .catch(() => {})
+    }
+
+    // Show notification, unless turned off in Settings
+    const notifications = notificationsRef.current
+    const wanted = phase === 'work' ? notifications.sessionComplete : notifications.breakOver
+    if (wanted && 'Notification' in window && Notification.permission === 'granted') {
+      new Notification(phase === 'work' ? 'Focus Session Complete!' : 'Break Over!', {
+        body: phase === 'work'
+          ? `Great job! You completed a ${minutes} minute focus session.`
+          : 'Time to get back to focus.',
         icon: '/icon-192.png'
       })
     }
 
+    // Cycles move on to the next phase automatically
+    if (state?.cycle) {
+      advanceCycle(state)
+    }
+
+    // The final heartbeat completes the session server-side; catch up after it
+    if (phase === 'work') {
+      setTimeout(loadGoal, 5000)
+    }
+
     // Play sound (optional)
-    const audio = new Audio('/notification.mp3')
-    audio.play().catch(() => {})
+    if (notifications.sound) {
+      const audio = new Audio('/notification.mp3')
+      audio.play().catch(() => {})
+    }
   }
 
   const formatTime = (seconds: number) => {
@@ -127,24 +693,54 @@ export default function TimerPage() {
     }
   }
 
-  // Load saved state on mount
+  // Load saved state on mount, including paused sessions and cycles
   useEffect(() => {
     const saved = localStorage.getItem('timerState')
     if (saved) {
-      const state = JSON.parse(saved)
-      const elapsed = Math.floor((Date.now() - state.startTime) / 1000)
-      const remaining = Math.max(0, state.duration - elapsed)
-
-      if (remaining > 0 && state.isRunning) {
-        setTimeLeft(remaining)
-        setIsRunning(true)
-        setDuration(Math.ceil(state.duration / 60))
+      const state: SavedTimerState = {
+        clockOffset: 0,
+        cycle: null,
+        cycleId: null,
+        task: null,
+        project: null,
+        ...JSON.parse(saved)
+      }
+      if (!state.sessionId || !Array.isArray(state.events)) return
+
+      const timer = getTimer(state)
+      if (timer.status === 'running' || timer.status === 'paused') {
+        applyTimerState(state)
+      } else if (timer.status === 'completed' && state.cycle) {
+        // The phase ended while the page was closed
+        timerStateRef.current = state
+        advanceCycle(state)
       }
     }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
   return (
     <main className="flex min-h-screen flex-col items-center justify-center p-8">
+      {/* Badge unlock toast */}
+      {newBadges.length > 0 && (
+        <div className="fixed top-4 right-4 z-50 max-w-xs rounded-lg bg-yellow-100 dark:bg-yellow-900 p-4 shadow-lg">
+          <div className="font-semibold mb-1">🏅 Badge unlocked!</div>
+          {newBadges.map((badge) => (
+            <div key={badge.id} className="text-sm">
+              {badge.icon} {badge.title}
+            </div>
+          ))}
+          <div className="mt-2 flex gap-3 text-sm">
+            <button onClick={() => router.push('/streaks')} className="text-blue-600 dark:text-blue-400 hover:underline">
+              See badges
+            </button>
+            <button onClick={() => setNewBadges([])} className="text-gray-600 dark:text-gray-300 hover:underline">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="max-w-2xl w-full">
         <button
           onClick={() => router.push('/')}
@@ -163,37 +759,114 @@ export default function TimerPage() {
             <div className="text-6xl font-mono font-bold text-green-500">
               {formatTime(timeLeft)}
             </div>
+            {timerStateRef.current && (task || project) && (
+              <div className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+                {task && <span>📌 {task}</span>}
+                {task && project && <span> • </span>}
+                {project && <span className="font-semibold">#{project}</span>}
+              </div>
+            )}
+            {cycle && (
+              <div className="mt-2 text-sm font-semibold text-gray-600 dark:text-gray-300">
+                {PHASE_LABELS[cycle.phase]} • Round {cycle.round} of {cycle.config.roundsBeforeLongBreak}
+              </div>
+            )}
             {isRunning && (
               <div className="mt-2 text-sm text-gray-500">
-                Session in progress...
+                {cycle && isBreakPhase(cycle.phase) ? 'Break in progress...' : 'Session in progress...'}
               </div>
             )}
           </div>
 
-          {/* Duration Selection */}
+          {/* Task & Project */}
           {!isRunning && timeLeft === 0 && (
-            <div className="mb-8">
-              <div className="grid grid-cols-3 gap-4 mb-4">
-                <button
-                  onClick={() => setDuration(25)}
-                  className={`py-3 px-4 rounded-lg font-semibold transition-colors ${
-                    duration === 25
-                      ? 'bg-green-500 text-white'
-                      : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
-                  }`}
-                >
-                  25 min
-                </button>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <input
+                type="text"
+                value={task}
+                onChange={(e) => setTask(e.target.value)}
+                placeholder="What are you working on?"
+                list="task-suggestions"
+                maxLength={120}
+                className="rounded-lg bg-gray-100 dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-gray-100"
+              />
+              <input
+                type="text"
+                value={project}
+                onChange={(e) => setProject(e.target.value)}
+                placeholder="Project or tag"
+                list="project-suggestions"
+                maxLength={50}
+                className="rounded-lg bg-gray-100 dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-gray-100"
+              />
+              <datalist id="task-suggestions">
+                {suggestions.tasks.map((value) => <option key={value} value={value} />)}
+              </datalist>
+              <datalist id="project-suggestions">
+                {suggestions.projects.map((value) => <option key={value} value={value} />)}
+              </datalist>
+            </div>
+          )}
+
+          {/* Mode Selection */}
+          {!isRunning && timeLeft === 0 && (
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              {(['single', 'cycle'] as const).map((option) => (
                 <button
-                  onClick={() => setDuration(50)}
-                  className={`py-3 px-4 rounded-lg font-semibold transition-colors ${
-                    duration === 50
-                      ? 'bg-green-500 text-white'
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`py-2 px-4 rounded-lg text-sm font-semibold transition-colors ${
+                    mode === option
+                      ? 'bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900'
                       : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
                   }`}
                 >
-                  50 min
+                  {option === 'single' ? 'Single Session' : 'Pomodoro Cycle'}
                 </button>
+              ))}
+            </div>
+          )}
+
+          {/* Cycle Settings */}
+          {!isRunning && timeLeft === 0 && mode === 'cycle' && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+              {([
+                ['workMinutes', 'Focus (min)'],
+                ['shortBreakMinutes', 'Short break (min)'],
+                ['longBreakMinutes', 'Long break (min)'],
+                ['roundsBeforeLongBreak', 'Rounds']
+              ] as const).map(([field, label]) => (
+                <label key={field} className="text-sm text-gray-600 dark:text-gray-400">
+                  {label}
+                  <input
+                    type="number"
+                    min={1}
+                    value={cycleConfig[field]}
+                    onChange={(e) => setCycleConfig({ ...cycleConfig, [field]: Number(e.target.value) })}
+                    className="mt-1 w-full rounded-lg bg-gray-100 dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-gray-100"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+
+          {/* Duration Selection */}
+          {!isRunning && timeLeft === 0 && mode === 'single' && (
+            <div className="mb-8">
+              <div className="grid grid-cols-3 gap-4 mb-4">
+                {presets.map((minutes) => (
+                  <button
+                    key={minutes}
+                    onClick={() => setDuration(minutes)}
+                    className={`py-3 px-4 rounded-lg font-semibold transition-colors ${
+                      duration === minutes
+                        ? 'bg-green-500 text-white'
+                        : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {minutes} min
+                  </button>
+                ))}
                 <button
                   onClick={() => {
                     const custom = prompt('Enter custom duration in minutes:')
@@ -201,26 +874,81 @@ export default function TimerPage() {
                       setDuration(Number(custom))
                     }
                   }}
-                  className="py-3 px-4 rounded-lg font-semibold bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                  className={`py-3 px-4 rounded-lg font-semibold transition-colors ${
+                    presets.includes(duration)
+                      ? 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                      : 'bg-green-500 text-white'
+                  }`}
+                >
+                  {presets.includes(duration) ? 'Custom' : `${duration} min`}
+                </button>
+              </div>
+              <div className="text-center">
+                <button
+                  onClick={() => router.push('/settings')}
+                  className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
                 >
-                  Custom
+                  Edit presets
                 </button>
               </div>
             </div>
           )}
 
+          {/* Session On Another Device */}
+          {conflict && (
+            <div className="mb-6 p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+              <div className="font-semibold text-yellow-900 dark:text-yellow-100 mb-3">
+                A session is already running on {conflict.session.deviceName || 'another device'} ({conflict.minutesLeft} min left)
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => startTimer('takeover')}
+                  className="py-2 px-3 rounded-lg text-sm bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+                >
+                  Take over
+                </button>
+                <button
+                  onClick={() => startTimer('cancel_other')}
+                  className="py-2 px-3 rounded-lg text-sm bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+                >
+                  Cancel the other and start here
+                </button>
+                <button
+                  onClick={() => setConflict(null)}
+                  className="py-2 px-3 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                >
+                  Never mind
+                </button>
+              </div>
+            </div>
+          )}
+
+          {ownerDevice && (
+            <div className="mb-6 text-center">
+              <div className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                Running on {ownerDevice}
+              </div>
+              <button
+                onClick={() => startTimer('takeover')}
+                className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-3 px-8 rounded-lg transition-colors"
+              >
+                Take over
+              </button>
+            </div>
+          )}
+
           {/* Control Buttons */}
           <div className="flex gap-4 justify-center">
             {!isRunning && timeLeft === 0 && (
               <button
-                onClick={startTimer}
+                onClick={() => startTimer()}
                 className="bg-green-500 hover:bg-green-600 text-white font-bold py-3 px-8 rounded-lg transition-colors"
               >
-                Start Focus Session
+                {mode === 'cycle' ? 'Start Pomodoro Cycle' : 'Start Focus Session'}
               </button>
             )}
 
-            {isRunning && (
+            {isRunning && !ownerDevice && (
               <button
                 onClick={pauseTimer}
                 className="bg-yellow-500 hover:bg-yellow-600 text-white font-bold py-3 px-8 rounded-lg transition-colors"
@@ -229,10 +957,10 @@ export default function TimerPage() {
               </button>
             )}
 
-            {!isRunning && timeLeft > 0 && (
+            {!isRunning && timeLeft > 0 && !ownerDevice && (
               <>
                 <button
-                  onClick={() => setIsRunning(true)}
+                  onClick={resumeTimer}
                   className="bg-green-500 hover:bg-green-600 text-white font-bold py-3 px-8 rounded-lg transition-colors"
                 >
                   Resume
@@ -247,6 +975,76 @@ export default function TimerPage() {
             )}
           </div>
 
+          {/* Abandonment Reason */}
+          {showAbandon && (
+            <div className="mt-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <div className="font-semibold text-red-900 dark:text-red-100 mb-3">
+                Why are you stopping this session?
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(ABANDON_REASONS) as AbandonReason[]).map((reason) => (
+                  <button
+                    key={reason}
+                    onClick={() => abandonTimer(reason)}
+                    className="py-2 px-3 rounded-lg text-sm bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    {ABANDON_REASONS[reason]}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => setShowAbandon(false)}
+                className="mt-3 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              >
+                Keep going
+              </button>
+            </div>
+          )}
+
+          {/* Interruptions */}
+          {isRunning && !ownerDevice && (!cycle || !isBreakPhase(cycle.phase)) && (
+            <div className="mt-6 flex gap-2 justify-center">
+              {(['internal', 'external'] as const).map((kind) => (
+                <button
+                  key={kind}
+                  onClick={() => logInterruption(kind)}
+                  className="py-2 px-4 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                >
+                  {kind === 'internal' ? '💭 Internal' : '📞 External'} interruption ({interruptions[kind]})
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Daily Goal */}
+          {goal && (
+            <div className="mt-6">
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+                <span>Today&apos;s goal</span>
+                <span>
+                  {Math.min(goal.progress.done, goal.progress.target)} / {goal.progress.target} {goal.goal.type === 'minutes' ? 'min' : 'sessions'}
+                  {goal.progress.met && ' ✓'}
+                </span>
+              </div>
+              <div className="bg-gray-200 dark:bg-gray-700 rounded-full h-2 overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-500 ${goal.progress.met ? 'bg-green-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.min(goal.progress.done / goal.progress.target, 1) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Completion Rate */}
+          {stats && stats.completionRate !== null && (
+            <div className="mt-6 text-center text-sm text-gray-600 dark:text-gray-400">
+              {Math.round(stats.completionRate * 100)}% of sessions completed in the last {stats.windowDays} days
+              {stats.interruptionsPerSession !== null && (
+                <> • {stats.interruptionsPerSession.toFixed(1)} interruptions per session</>
+              )}
+            </div>
+          )}
+
           {/* Notification Permission */}
           <div className="mt-8 text-center">
             <button
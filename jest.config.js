@@ -0,0 +1,11 @@
+const nextJest = require('next/jest');
+
+// Compiles TypeScript with Next's SWC setup and resolves the `@/` alias
+const createJestConfig = nextJest({ dir: './' });
+
+module.exports = createJestConfig({
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1'
+  }
+});
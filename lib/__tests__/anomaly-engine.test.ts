@@ -0,0 +1,173 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  HEARTBEAT_INTERVAL,
+  HeartbeatSample,
+  SessionEvidence,
+  clockDriftRule,
+  heartbeatBurstRule,
+  missingHeartbeatsRule,
+  overlappingSessionsRule,
+  scoreSession,
+  sparseHeartbeatsRule
+} from '../anomaly-engine';
+import { TimerEvent } from '../timer-engine';
+
+const START = 1_700_000_000_000;
+const DURATION = 25 * 60000;
+const END = START + DURATION;
+
+// One pulse every `step` ms from `from` up to and including `to`
+function pulses(from: number, to: number, step = HEARTBEAT_INTERVAL, drift = 0): HeartbeatSample[] {
+  const samples: HeartbeatSample[] = [];
+  for (let at = from; at <= to; at += step) {
+    samples.push({ at, elapsed: at - START, drift });
+  }
+  return samples;
+}
+
+function evidence(overrides: Partial<SessionEvidence> = {}): SessionEvidence {
+  return {
+    events: [{ type: 'start', at: START, durationMs: DURATION }],
+    heartbeats: pulses(START + HEARTBEAT_INTERVAL, END),
+    otherSessions: [],
+    now: END + 1000,
+    ...overrides
+  };
+}
+
+describe('clockDriftRule', () => {
+  it('ignores drift within tolerance', () => {
+    expect(clockDriftRule.evaluate(evidence({ heartbeats: pulses(START, END, HEARTBEAT_INTERVAL, 3000) }))).toBeNull();
+  });
+
+  it('flags the worst drift beyond tolerance', () => {
+    const heartbeats = pulses(START, END);
+    heartbeats[10] = { ...heartbeats[10], drift: 12000 };
+    expect(clockDriftRule.evaluate(evidence({ heartbeats }))).toEqual({
+      code: 'clock_drift',
+      score: 40,
+      detail: 'Drifted 12s'
+    });
+  });
+});
+
+describe('missingHeartbeatsRule', () => {
+  it('accepts a steady pulse', () => {
+    expect(missingHeartbeatsRule.evaluate(evidence())).toBeNull();
+  });
+
+  it('counts each silence longer than three intervals', () => {
+    const heartbeats = [
+      ...pulses(START + HEARTBEAT_INTERVAL, START + 5 * 60000),
+      ...pulses(START + 10 * 60000, END)
+    ];
+    expect(missingHeartbeatsRule.evaluate(evidence({ heartbeats }))).toMatchObject({
+      code: 'missing_heartbeats',
+      score: 10
+    });
+  });
+
+  it('does not count paused time as silence', () => {
+    const events: TimerEvent[] = [
+      { type: 'start', at: START, durationMs: DURATION },
+      { type: 'pause', at: START + 5 * 60000 },
+      { type: 'resume', at: START + 15 * 60000 }
+    ];
+    const heartbeats = [
+      ...pulses(START + HEARTBEAT_INTERVAL, START + 5 * 60000),
+      ...pulses(START + 15 * 60000 + HEARTBEAT_INTERVAL, END + 10 * 60000)
+    ];
+    expect(missingHeartbeatsRule.evaluate(evidence({ events, heartbeats, now: END + 11 * 60000 }))).toBeNull();
+  });
+
+  it('caps the score', () => {
+    const heartbeats = [START + 5 * 60000, START + 10 * 60000, START + 15 * 60000, START + 20 * 60000]
+      .map((at) => ({ at, elapsed: at - START, drift: 0 }));
+    expect(missingHeartbeatsRule.evaluate(evidence({ heartbeats }))).toMatchObject({ score: 20 });
+  });
+});
+
+describe('heartbeatBurstRule', () => {
+  it('allows a few quick pulses', () => {
+    const heartbeats = [...pulses(START, START + 8000, 2000), ...pulses(START + 60000, END)];
+    expect(heartbeatBurstRule.evaluate(evidence({ heartbeats }))).toBeNull();
+  });
+
+  it('flags many pulses within ten seconds', () => {
+    const heartbeats = [...pulses(START, START + 10000, 1000), ...pulses(START + 60000, END)];
+    expect(heartbeatBurstRule.evaluate(evidence({ heartbeats }))).toEqual({
+      code: 'heartbeat_burst',
+      score: 30,
+      detail: '11 heartbeats within 10s'
+    });
+  });
+});
+
+describe('sparseHeartbeatsRule', () => {
+  it('flags a completed session that was barely seen', () => {
+    const heartbeats = pulses(START + HEARTBEAT_INTERVAL, START + 5 * HEARTBEAT_INTERVAL);
+    expect(sparseHeartbeatsRule.evaluate(evidence({ heartbeats }))).toEqual({
+      code: 'sparse_heartbeats',
+      score: 20,
+      detail: '5 of ~50 expected heartbeats'
+    });
+  });
+
+  it('waits until the session has ended', () => {
+    expect(sparseHeartbeatsRule.evaluate(evidence({ heartbeats: [], now: START + 10 * 60000 }))).toBeNull();
+  });
+
+  it('accepts a well covered session', () => {
+    expect(sparseHeartbeatsRule.evaluate(evidence())).toBeNull();
+  });
+});
+
+describe('overlappingSessionsRule', () => {
+  it('flags focus time claimed by another session', () => {
+    const otherSessions = [{ start: END - 10 * 60000, end: END + 5 * 60000 }];
+    expect(overlappingSessionsRule.evaluate(evidence({ otherSessions }))).toEqual({
+      code: 'overlapping_sessions',
+      score: 60,
+      detail: 'Overlaps other sessions by 600s'
+    });
+  });
+
+  it('tolerates a few seconds of overlap at the edges', () => {
+    const otherSessions = [{ start: END - 3000, end: END + 25 * 60000 }];
+    expect(overlappingSessionsRule.evaluate(evidence({ otherSessions }))).toBeNull();
+  });
+});
+
+describe('scoreSession', () => {
+  it('counts a clean session', () => {
+    expect(scoreSession(evidence())).toEqual({ score: 0, reasons: [], findings: [], counts: true });
+  });
+
+  it('still counts a session run offline and synced later', () => {
+    const report = scoreSession(evidence({ heartbeats: [] }));
+    expect(report.reasons).toEqual(['missing_heartbeats', 'sparse_heartbeats']);
+    expect(report.score).toBe(30);
+    expect(report.counts).toBe(true);
+  });
+
+  it('adds up findings and rejects suspicious sessions', () => {
+    const heartbeats = pulses(START + HEARTBEAT_INTERVAL, START + 5 * HEARTBEAT_INTERVAL, HEARTBEAT_INTERVAL, 9000);
+    const report = scoreSession(evidence({ heartbeats }));
+    expect(report.reasons).toEqual(['clock_drift', 'missing_heartbeats', 'sparse_heartbeats']);
+    expect(report.score).toBe(70);
+    expect(report.counts).toBe(false);
+  });
+
+  it('caps the score at 100', () => {
+    const heartbeats = [...pulses(START, START + 10000, 1000, 9000), ...pulses(START + 60000, END)];
+    const otherSessions = [{ start: START, end: END }];
+    const report = scoreSession(evidence({ heartbeats, otherSessions }));
+    expect(report.score).toBe(100);
+    expect(report.counts).toBe(false);
+  });
+
+  it('runs only the rules given', () => {
+    const report = scoreSession(evidence({ heartbeats: [] }), [sparseHeartbeatsRule]);
+    expect(report.reasons).toEqual(['sparse_heartbeats']);
+  });
+});
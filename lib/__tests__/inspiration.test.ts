@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  DEFAULT_QUESTS,
+  FALLBACK_MANTRAS,
+  generateMantra,
+  generateQuest,
+  pickFallbackMantra
+} from '../inspiration';
+import { GenerationRequest, pickTemplate, setTextProvider } from '../text-generation';
+
+const PROFILE = { focusArea: 'writing my thesis', motivationStyle: 'calm' };
+const USER = 'user-1';
+const TODAY = '2026-10-19';
+
+// Answers each request with the next reply in line, repeating the last one
+function useFakeProvider(...replies: (string | null | Error)[]): GenerationRequest[] {
+  const requests: GenerationRequest[] = [];
+  setTextProvider({
+    name: 'fake',
+    generate: async (request) => {
+      requests.push(request);
+      const reply = replies[Math.min(requests.length - 1, replies.length - 1)];
+      if (reply instanceof Error) throw reply;
+      return reply;
+    }
+  });
+  return requests;
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setTextProvider(null);
+  jest.restoreAllMocks();
+});
+
+describe('generateMantra', () => {
+  it('returns what the provider wrote', async () => {
+    useFakeProvider('Small steps still move the thesis forward.');
+    expect(await generateMantra(PROFILE, USER, TODAY, [])).toEqual({
+      text: 'Small steps still move the thesis forward.',
+      provider: 'fake',
+      fallback: false
+    });
+  });
+
+  it('puts the profile and recent mantras in the prompt', async () => {
+    const requests = useFakeProvider('Breathe, then write one more page.');
+    await generateMantra(PROFILE, USER, TODAY, ['Stay with the hard paragraph.']);
+    expect(requests[0].system).toContain('Focus area: writing my thesis');
+    expect(requests[0].system).toContain('Style: calm');
+    expect(requests[0].system).toContain('- Stay with the hard paragraph.');
+  });
+
+  it('truncates long output', async () => {
+    useFakeProvider('Keep going '.repeat(20));
+    const result = await generateMantra(PROFILE, USER, TODAY, []);
+    expect(result.text).toHaveLength(80);
+    expect(result.text.endsWith('...')).toBe(true);
+  });
+
+  it('retries output that repeats a recent mantra', async () => {
+    const recent = ['Every page you write is progress.'];
+    const requests = useFakeProvider('Every page you write is progress!', 'Rest is part of the work.');
+    const result = await generateMantra(PROFILE, USER, TODAY, recent);
+    expect(result).toEqual({ text: 'Rest is part of the work.', provider: 'fake', fallback: false });
+    expect(requests.map((request) => request.seed)).toEqual([`${USER}:${TODAY}:0`, `${USER}:${TODAY}:1`]);
+  });
+
+  it('falls back to the rotation when every attempt repeats', async () => {
+    const recent = ['Every page you write is progress.'];
+    const requests = useFakeProvider('every page you write is progress');
+    const result = await generateMantra(PROFILE, USER, TODAY, recent);
+    expect(requests).toHaveLength(3);
+    expect(result).toEqual({ text: pickFallbackMantra(USER, recent), provider: 'template', fallback: true });
+  });
+
+  it('falls back to the rotation when the provider throws', async () => {
+    useFakeProvider(new Error('rate limited'));
+    const recent = FALLBACK_MANTRAS.slice(0, 5);
+    const result = await generateMantra(PROFILE, USER, TODAY, recent);
+    expect(result).toEqual({ text: pickFallbackMantra(USER, recent), provider: 'template', fallback: true });
+    expect(recent).not.toContain(result.text);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('falls back to the rotation when the provider returns nothing', async () => {
+    const requests = useFakeProvider(null);
+    const result = await generateMantra(PROFILE, USER, TODAY, []);
+    expect(requests).toHaveLength(1);
+    expect(result).toEqual({ text: pickFallbackMantra(USER, []), provider: 'template', fallback: true });
+  });
+});
+
+describe('generateQuest', () => {
+  it('returns what the provider wrote', async () => {
+    const requests = useFakeProvider('Write down three expenses from today.');
+    expect(await generateQuest(`${USER}:${TODAY}`)).toEqual({
+      text: 'Write down three expenses from today.',
+      provider: 'fake',
+      fallback: false
+    });
+    expect(requests[0].templates).toEqual(DEFAULT_QUESTS);
+  });
+
+  it('falls back to a default quest when the provider throws', async () => {
+    useFakeProvider(new Error('offline'));
+    expect(await generateQuest(`${USER}:${TODAY}`)).toEqual({
+      text: pickTemplate(DEFAULT_QUESTS, `${USER}:${TODAY}`),
+      provider: 'template',
+      fallback: true
+    });
+  });
+
+  it('falls back to a default quest when the provider returns nothing', async () => {
+    useFakeProvider(null);
+    const result = await generateQuest('seed');
+    expect(result).toEqual({ text: pickTemplate(DEFAULT_QUESTS, 'seed'), provider: 'template', fallback: true });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  IDLE_TIMER,
+  TimerEvent,
+  applyTimerEvent,
+  getElapsed,
+  getPlannedEnd,
+  getRemaining,
+  replayTimerEvents,
+  settleTimer
+} from '../timer-engine';
+
+const START = 1_700_000_000_000;
+const DURATION = 25 * 60000;
+const MINUTE = 60000;
+
+const start: TimerEvent = { type: 'start', at: START, durationMs: DURATION };
+
+describe('start, pause, resume and settle', () => {
+  const events: TimerEvent[] = [
+    start,
+    { type: 'pause', at: START + 10 * MINUTE },
+    { type: 'resume', at: START + 15 * MINUTE }
+  ];
+
+  it('runs from the start event', () => {
+    const state = replayTimerEvents([start]);
+    expect(state).toMatchObject({ status: 'running', startedAt: START, durationMs: DURATION });
+    expect(getElapsed(state, START + 5 * MINUTE)).toBe(5 * MINUTE);
+  });
+
+  it('freezes elapsed time while paused', () => {
+    const state = replayTimerEvents(events.slice(0, 2));
+    expect(state).toMatchObject({ status: 'paused', pausedAt: START + 10 * MINUTE });
+    expect(getElapsed(state, START + 14 * MINUTE)).toBe(10 * MINUTE);
+  });
+
+  it('pushes the planned end back by the pause', () => {
+    const state = replayTimerEvents(events);
+    expect(state).toMatchObject({ status: 'running', pausedAt: null, totalPausedMs: 5 * MINUTE });
+    expect(getPlannedEnd(state)).toBe(START + DURATION + 5 * MINUTE);
+    expect(getRemaining(state, START + 20 * MINUTE)).toBe(10 * MINUTE);
+  });
+
+  it('settles at the planned end, not when it is noticed', () => {
+    const state = replayTimerEvents(events, START + 2 * DURATION);
+    expect(state).toMatchObject({ status: 'completed', endedAt: START + DURATION + 5 * MINUTE });
+    expect(getElapsed(state, START + 2 * DURATION)).toBe(DURATION);
+  });
+
+  it('stays running before the planned end', () => {
+    const running = replayTimerEvents(events);
+    expect(settleTimer(running, START + DURATION + MINUTE)).toBe(running);
+  });
+});
+
+describe('abandon', () => {
+  it('ends a running timer where it stands', () => {
+    const state = replayTimerEvents([start, { type: 'abandon', at: START + 7 * MINUTE }]);
+    expect(state).toMatchObject({ status: 'abandoned', endedAt: START + 7 * MINUTE });
+    expect(getElapsed(state, START + DURATION)).toBe(7 * MINUTE);
+  });
+
+  it('closes the open pause of a paused timer', () => {
+    const state = replayTimerEvents([
+      start,
+      { type: 'pause', at: START + 5 * MINUTE },
+      { type: 'abandon', at: START + 8 * MINUTE }
+    ]);
+    expect(state).toMatchObject({
+      status: 'abandoned',
+      pausedAt: null,
+      totalPausedMs: 3 * MINUTE,
+      endedAt: START + 8 * MINUTE
+    });
+    expect(getElapsed(state, START + DURATION)).toBe(5 * MINUTE);
+  });
+
+  it('cannot undo a session that already finished', () => {
+    const state = replayTimerEvents([start, { type: 'abandon', at: START + DURATION + MINUTE }]);
+    expect(state).toMatchObject({ status: 'completed', endedAt: START + DURATION });
+  });
+});
+
+describe('events that do not fit the current state', () => {
+  it('ignores everything before a start', () => {
+    const events: TimerEvent[] = [
+      { type: 'pause', at: START },
+      { type: 'resume', at: START },
+      { type: 'abandon', at: START }
+    ];
+    expect(replayTimerEvents(events)).toEqual(IDLE_TIMER);
+  });
+
+  it('ignores a second start and a zero-length start', () => {
+    expect(applyTimerEvent(IDLE_TIMER, { type: 'start', at: START, durationMs: 0 })).toBe(IDLE_TIMER);
+    const state = replayTimerEvents([start, { type: 'start', at: START + MINUTE, durationMs: 5 * MINUTE }]);
+    expect(state).toMatchObject({ startedAt: START, durationMs: DURATION });
+  });
+
+  it('ignores pausing twice and resuming a running timer', () => {
+    const paused = replayTimerEvents([start, { type: 'pause', at: START + MINUTE }]);
+    expect(applyTimerEvent(paused, { type: 'pause', at: START + 2 * MINUTE })).toBe(paused);
+
+    const running = replayTimerEvents([start]);
+    expect(applyTimerEvent(running, { type: 'resume', at: START + MINUTE })).toBe(running);
+  });
+
+  it('leaves completion to the clock', () => {
+    const early = applyTimerEvent(replayTimerEvents([start]), { type: 'complete', at: START + MINUTE });
+    expect(early.status).toBe('running');
+
+    const late = applyTimerEvent(replayTimerEvents([start]), { type: 'complete', at: START + DURATION + MINUTE });
+    expect(late).toMatchObject({ status: 'completed', endedAt: START + DURATION });
+  });
+
+  it('ignores events after the session ended', () => {
+    const abandoned = replayTimerEvents([start, { type: 'abandon', at: START + MINUTE }]);
+    expect(applyTimerEvent(abandoned, { type: 'resume', at: START + 2 * MINUTE })).toBe(abandoned);
+  });
+});
+
+describe('replaying out-of-order logs', () => {
+  const inOrder: TimerEvent[] = [
+    start,
+    { type: 'pause', at: START + 10 * MINUTE },
+    { type: 'resume', at: START + 12 * MINUTE },
+    { type: 'pause', at: START + 20 * MINUTE },
+    { type: 'resume', at: START + 21 * MINUTE }
+  ];
+
+  it('sorts events by timestamp first', () => {
+    const shuffled = [inOrder[3], inOrder[1], inOrder[4], start, inOrder[2]];
+    expect(replayTimerEvents(shuffled)).toEqual(replayTimerEvents(inOrder));
+    expect(replayTimerEvents(shuffled)).toMatchObject({ status: 'running', totalPausedMs: 3 * MINUTE });
+  });
+
+  it('keeps log order for events with the same timestamp', () => {
+    const at = START + 10 * MINUTE;
+    const pauseThenResume = replayTimerEvents([start, { type: 'pause', at }, { type: 'resume', at }]);
+    expect(pauseThenResume).toMatchObject({ status: 'running', totalPausedMs: 0 });
+
+    const resumeThenPause = replayTimerEvents([start, { type: 'resume', at }, { type: 'pause', at }]);
+    expect(resumeThenPause).toMatchObject({ status: 'paused', pausedAt: at });
+  });
+
+  it('does not mutate the log it replays', () => {
+    const shuffled = [inOrder[2], start, inOrder[1]];
+    const copy = [...shuffled];
+    replayTimerEvents(shuffled);
+    expect(shuffled).toEqual(copy);
+  });
+});
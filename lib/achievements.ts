@@ -0,0 +1,211 @@
+// Achievements: declarative badge rules over the sessions that count toward streaks.
+// Each rule is a metric and a threshold; syncAchievements replays history in
+// completion order, so badges unlock with the time they were actually earned
+// and backfilling old history gives the same result as live checks.
+
+import { STREAK_SESSIONS_FILTER } from './streaks';
+import { getLocalHour, isValidTimeZone, resolveTimezone } from './timezones';
+
+export interface AchievementStats {
+  totalSessions: number;
+  totalMinutes: number;
+  longestSessionMinutes: number;
+  earlySessions: number; // started before 9am local time
+  maxTagMinutes: number; // most minutes on a single task or project
+  longestStreak: number;
+}
+
+export type AchievementMetric = keyof AchievementStats;
+
+export interface AchievementRule {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  metric: AchievementMetric;
+  threshold: number;
+}
+
+export interface UnlockedAchievement {
+  id: string;
+  title: string;
+  icon: string;
+  unlockedAt: string;
+}
+
+const EARLY_HOUR = 9;
+
+export const ACHIEVEMENTS: AchievementRule[] = [
+  { id: 'first_focus', title: 'First Focus', description: 'Complete your first session', icon: '🌱', metric: 'totalSessions', threshold: 1 },
+  { id: 'deep_diver', title: 'Deep Diver', description: 'Complete a 50-minute session', icon: '🤿', metric: 'longestSessionMinutes', threshold: 50 },
+  { id: 'early_bird', title: 'Early Bird', description: 'Complete 10 sessions started before 9am', icon: '🐦', metric: 'earlySessions', threshold: 10 },
+  { id: 'week_streak', title: 'On a Roll', description: 'Reach a 7-day streak', icon: '🔥', metric: 'longestStreak', threshold: 7 },
+  { id: 'month_streak', title: 'Unstoppable', description: 'Reach a 30-day streak', icon: '🌋', metric: 'longestStreak', threshold: 30 },
+  { id: 'centurion', title: 'Centurion', description: 'Complete 100 sessions', icon: '💯', metric: 'totalSessions', threshold: 100 },
+  { id: 'ten_hours', title: 'Ten Hours In', description: 'Focus for 10 hours in total', icon: '⏳', metric: 'totalMinutes', threshold: 10 * 60 },
+  { id: 'specialist', title: 'Specialist', description: 'Focus 100 hours on one task or project', icon: '🎯', metric: 'maxTagMinutes', threshold: 100 * 60 }
+];
+
+export const EMPTY_STATS: AchievementStats = {
+  totalSessions: 0,
+  totalMinutes: 0,
+  longestSessionMinutes: 0,
+  earlySessions: 0,
+  maxTagMinutes: 0,
+  longestStreak: 0
+};
+
+// Folds one validated session into the running stats. `tagMinutes` holds the
+// per-tag totals behind maxTagMinutes.
+export function addSessionToStats(
+  stats: AchievementStats,
+  tagMinutes: Map<string, number>,
+  session: { start_time: string; duration: number; task: string | null; project: string | null },
+  timezone: string
+): AchievementStats {
+  const minutes = Math.floor(session.duration / 60);
+  const early = getLocalHour(new Date(session.start_time).getTime(), timezone) < EARLY_HOUR;
+
+  let maxTagMinutes = stats.maxTagMinutes;
+  [session.task && `task:${session.task}`, session.project && `project:${session.project}`]
+    .forEach((tag) => {
+      if (!tag) return;
+      const total = (tagMinutes.get(tag) || 0) + minutes;
+      tagMinutes.set(tag, total);
+      maxTagMinutes = Math.max(maxTagMinutes, total);
+    });
+
+  return {
+    ...stats,
+    totalSessions: stats.totalSessions + 1,
+    totalMinutes: stats.totalMinutes + minutes,
+    longestSessionMinutes: Math.max(stats.longestSessionMinutes, minutes),
+    earlySessions: stats.earlySessions + (early ? 1 : 0),
+    maxTagMinutes
+  };
+}
+
+export function isUnlocked(rule: AchievementRule, stats: AchievementStats): boolean {
+  return stats[rule.metric] >= rule.threshold;
+}
+
+// 0-1 toward the rule's threshold
+export function getAchievementProgress(rule: AchievementRule, stats: AchievementStats): number {
+  return Math.min(1, stats[rule.metric] / rule.threshold);
+}
+
+// Replays the user's counted sessions and stores any badge not yet unlocked.
+// Safe to repeat; returns only the badges this call stored.
+export async function syncAchievements(
+  supabase: any,
+  userId: string
+): Promise<{ stats: AchievementStats; unlocked: UnlockedAchievement[] }> {
+  const { data: streak } = await supabase
+    .from('streaks')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const { data: sessions, error } = await supabase
+    .from('timer_sessions')
+    .select('start_time, end_time, duration, timezone, task, project')
+    .eq('user_id', userId)
+    .eq('completed', true)
+    .or(STREAK_SESSIONS_FILTER)
+    .not('end_time', 'is', null)
+    .order('end_time', { ascending: true });
+
+  if (error) throw error;
+
+  const { data: existing } = await supabase
+    .from('achievements')
+    .select('achievement_id')
+    .eq('user_id', userId);
+  const alreadyUnlocked = new Set<string>((existing || []).map((row: any) => row.achievement_id));
+
+  const earnedAt = new Map<string, string>();
+  const tagMinutes = new Map<string, number>();
+  let stats = EMPTY_STATS;
+
+  (sessions || []).forEach((session: any) => {
+    const timezone = isValidTimeZone(session.timezone) ? session.timezone : resolveTimezone(streak, null);
+    stats = addSessionToStats(stats, tagMinutes, session, timezone);
+    ACHIEVEMENTS.forEach((rule) => {
+      if (!earnedAt.has(rule.id) && isUnlocked(rule, stats)) {
+        earnedAt.set(rule.id, session.end_time);
+      }
+    });
+  });
+
+  // Streak history isn't replayed here, so streak badges date from when they're noticed
+  stats = { ...stats, longestStreak: streak?.longest_streak || 0 };
+  const now = new Date().toISOString();
+  ACHIEVEMENTS.forEach((rule) => {
+    if (!earnedAt.has(rule.id) && isUnlocked(rule, stats)) {
+      earnedAt.set(rule.id, now);
+    }
+  });
+
+  const unlocked = ACHIEVEMENTS
+    .filter((rule) => earnedAt.has(rule.id) && !alreadyUnlocked.has(rule.id))
+    .map((rule) => ({
+      id: rule.id,
+      title: rule.title,
+      icon: rule.icon,
+      unlockedAt: earnedAt.get(rule.id)!
+    }));
+
+  if (unlocked.length > 0) {
+    const { error: insertError } = await supabase
+      .from('achievements')
+      .upsert(unlocked.map((achievement) => ({
+        user_id: userId,
+        achievement_id: achievement.id,
+        unlocked_at: achievement.unlockedAt
+      })), { onConflict: 'user_id,achievement_id', ignoreDuplicates: true });
+    if (insertError) throw insertError;
+  }
+
+  return { stats, unlocked };
+}
+
+export interface AchievementStatus {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  unlockedAt: string | null;
+  progress: number; // 0-1
+}
+
+export function describeAchievements(
+  stats: AchievementStats,
+  unlockedAt: Map<string, string>
+): AchievementStatus[] {
+  return ACHIEVEMENTS.map((rule) => ({
+    id: rule.id,
+    title: rule.title,
+    description: rule.description,
+    icon: rule.icon,
+    unlockedAt: unlockedAt.get(rule.id) || null,
+    progress: unlockedAt.has(rule.id) ? 1 : getAchievementProgress(rule, stats)
+  }));
+}
+
+// Every badge with its unlock time or progress, for the gallery. Syncs first,
+// so a user's first visit backfills badges from their existing history.
+export async function getAchievements(supabase: any, userId: string): Promise<AchievementStatus[]> {
+  const { stats } = await syncAchievements(supabase, userId);
+
+  const { data: rows, error } = await supabase
+    .from('achievements')
+    .select('achievement_id, unlocked_at')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return describeAchievements(
+    stats,
+    new Map((rows || []).map((row: any) => [row.achievement_id, row.unlocked_at]))
+  );
+}
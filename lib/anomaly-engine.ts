@@ -0,0 +1,232 @@
+// Anomaly scoring for focus sessions. Each rule looks at one signal (heartbeat
+// timing, clock drift, overlapping sessions) and contributes points with a
+// reason code; sessions scoring SUSPICIOUS_SCORE or more don't count toward streaks.
+
+import {
+  IDLE_TIMER,
+  TimerEvent,
+  TimerState,
+  applyTimerEvent,
+  settleTimer
+} from './timer-engine';
+
+// The service worker pulses every 30 seconds while a session runs
+export const HEARTBEAT_INTERVAL = 30000;
+
+export const SUSPICIOUS_SCORE = 50;
+const MAX_SCORE = 100;
+
+const DRIFT_TOLERANCE = 5000;
+const MAX_HEARTBEAT_GAP = 3 * HEARTBEAT_INTERVAL;
+const BURST_WINDOW = 10000;
+const BURST_LIMIT = 5;
+const MIN_HEARTBEAT_COVERAGE = 0.25;
+const OVERLAP_TOLERANCE = 5000;
+
+export type AnomalyCode =
+  | 'clock_drift'
+  | 'missing_heartbeats'
+  | 'heartbeat_burst'
+  | 'sparse_heartbeats'
+  | 'overlapping_sessions';
+
+export interface Interval {
+  start: number;
+  end: number;
+}
+
+export interface HeartbeatSample {
+  at: number; // server time the pulse arrived
+  elapsed: number; // focus time the client reported
+  drift: number; // |server elapsed - client elapsed|
+}
+
+export interface SessionEvidence {
+  events: TimerEvent[];
+  heartbeats: HeartbeatSample[];
+  otherSessions: Interval[]; // the user's other counted sessions
+  now: number;
+}
+
+export interface AnomalyFinding {
+  code: AnomalyCode;
+  score: number;
+  detail: string;
+}
+
+export interface AnomalyRule {
+  code: AnomalyCode;
+  evaluate(evidence: SessionEvidence): AnomalyFinding | null;
+}
+
+export interface AnomalyReport {
+  score: number;
+  reasons: AnomalyCode[];
+  findings: AnomalyFinding[];
+  counts: boolean; // whether the session may count toward streaks
+}
+
+// Stretches of time the session was running, excluding pauses
+export function getActiveIntervals(events: TimerEvent[], now: number): Interval[] {
+  const ordered = [...events].sort((a, b) => a.at - b.at);
+  const intervals: Interval[] = [];
+  let state: TimerState = IDLE_TIMER;
+  let openedAt: number | null = null;
+
+  for (const event of ordered) {
+    const next = applyTimerEvent(state, event);
+    if (openedAt === null && next.status === 'running') {
+      openedAt = event.at;
+    }
+    if (openedAt !== null && next.status !== 'running') {
+      intervals.push({ start: openedAt, end: next.endedAt ?? event.at });
+      openedAt = null;
+    }
+    state = next;
+  }
+
+  if (openedAt !== null) {
+    const settled = settleTimer(state, now);
+    intervals.push({ start: openedAt, end: settled.endedAt ?? now });
+  }
+  return intervals;
+}
+
+function overlap(a: Interval, b: Interval): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+function activeTimeBetween(intervals: Interval[], start: number, end: number): number {
+  return intervals.reduce((total, interval) => total + overlap(interval, { start, end }), 0);
+}
+
+function sortedPulses(evidence: SessionEvidence): number[] {
+  return evidence.heartbeats.map((heartbeat) => heartbeat.at).sort((a, b) => a - b);
+}
+
+function isEnded(evidence: SessionEvidence): boolean {
+  const state = evidence.events.reduce(applyTimerEvent, IDLE_TIMER);
+  return settleTimer(state, evidence.now).status === 'completed';
+}
+
+// The client's clock disagreed with the server's by more than a few seconds
+export const clockDriftRule: AnomalyRule = {
+  code: 'clock_drift',
+  evaluate(evidence) {
+    const worst = Math.max(0, ...evidence.heartbeats.map((heartbeat) => heartbeat.drift));
+    if (worst <= DRIFT_TOLERANCE) return null;
+    return { code: 'clock_drift', score: 40, detail: `Drifted ${Math.round(worst / 1000)}s` };
+  }
+};
+
+// Long silences while the timer was running. Kept light, like sparse
+// heartbeats: a session run offline and synced later shows both.
+export const missingHeartbeatsRule: AnomalyRule = {
+  code: 'missing_heartbeats',
+  evaluate(evidence) {
+    const intervals = getActiveIntervals(evidence.events, evidence.now);
+    if (intervals.length === 0) return null;
+
+    const checkpoints = [intervals[0].start, ...sortedPulses(evidence)];
+    if (isEnded(evidence)) {
+      checkpoints.push(intervals[intervals.length - 1].end);
+    }
+
+    let gaps = 0;
+    for (let i = 1; i < checkpoints.length; i++) {
+      if (activeTimeBetween(intervals, checkpoints[i - 1], checkpoints[i]) > MAX_HEARTBEAT_GAP) {
+        gaps++;
+      }
+    }
+    if (gaps === 0) return null;
+    return {
+      code: 'missing_heartbeats',
+      score: Math.min(20, gaps * 10),
+      detail: `${gaps} gap${gaps === 1 ? '' : 's'} over ${MAX_HEARTBEAT_GAP / 1000}s`
+    };
+  }
+};
+
+// Many pulses in a few seconds, as when a script replays them
+export const heartbeatBurstRule: AnomalyRule = {
+  code: 'heartbeat_burst',
+  evaluate(evidence) {
+    const pulses = sortedPulses(evidence);
+    let largest = 0;
+    let first = 0;
+    for (let last = 0; last < pulses.length; last++) {
+      while (pulses[last] - pulses[first] > BURST_WINDOW) first++;
+      largest = Math.max(largest, last - first + 1);
+    }
+    if (largest <= BURST_LIMIT) return null;
+    return {
+      code: 'heartbeat_burst',
+      score: 30,
+      detail: `${largest} heartbeats within ${BURST_WINDOW / 1000}s`
+    };
+  }
+};
+
+// A completed session that was barely seen live
+export const sparseHeartbeatsRule: AnomalyRule = {
+  code: 'sparse_heartbeats',
+  evaluate(evidence) {
+    if (!isEnded(evidence)) return null;
+
+    const intervals = getActiveIntervals(evidence.events, evidence.now);
+    const activeMs = intervals.reduce((total, interval) => total + interval.end - interval.start, 0);
+    const expected = Math.floor(activeMs / HEARTBEAT_INTERVAL);
+    if (expected < 2) return null;
+
+    const coverage = evidence.heartbeats.length / expected;
+    if (coverage >= MIN_HEARTBEAT_COVERAGE) return null;
+    return {
+      code: 'sparse_heartbeats',
+      score: 20,
+      detail: `${evidence.heartbeats.length} of ~${expected} expected heartbeats`
+    };
+  }
+};
+
+// Focus time claimed twice: sessions can't run side by side
+export const overlappingSessionsRule: AnomalyRule = {
+  code: 'overlapping_sessions',
+  evaluate(evidence) {
+    const intervals = getActiveIntervals(evidence.events, evidence.now);
+    if (intervals.length === 0) return null;
+
+    const span = { start: intervals[0].start, end: intervals[intervals.length - 1].end };
+    const overlapped = evidence.otherSessions.reduce((total, other) => total + overlap(span, other), 0);
+    if (overlapped <= OVERLAP_TOLERANCE) return null;
+    return {
+      code: 'overlapping_sessions',
+      score: 60,
+      detail: `Overlaps other sessions by ${Math.round(overlapped / 1000)}s`
+    };
+  }
+};
+
+export const DEFAULT_RULES: AnomalyRule[] = [
+  clockDriftRule,
+  missingHeartbeatsRule,
+  heartbeatBurstRule,
+  sparseHeartbeatsRule,
+  overlappingSessionsRule
+];
+
+export function scoreSession(
+  evidence: SessionEvidence,
+  rules: AnomalyRule[] = DEFAULT_RULES
+): AnomalyReport {
+  const findings = rules
+    .map((rule) => rule.evaluate(evidence))
+    .filter((finding): finding is AnomalyFinding => finding !== null);
+  const score = Math.min(MAX_SCORE, findings.reduce((total, finding) => total + finding.score, 0));
+
+  return {
+    score,
+    reasons: findings.map((finding) => finding.code),
+    findings,
+    counts: score < SUSPICIOUS_SCORE
+  };
+}
@@ -0,0 +1,179 @@
+// Focus analytics for the dashboard: totals per day, week and month, plus
+// time-of-day patterns. Days, weeks and hours are all in the user's timezone.
+
+import { FocusSession, loadFocusSessions } from './focus-calendar';
+import { CompletionStats, getCompletionStats } from './focus-metrics';
+import { addDays, getDayStart, getLocalHour, getWeekday } from './timezones';
+
+export interface FocusTotal {
+  minutes: number;
+  sessions: number;
+}
+
+export interface PeriodTotal extends FocusTotal {
+  period: string; // YYYY-MM-DD for days and weeks (the Monday), YYYY-MM for months
+}
+
+export interface WeekOverWeek {
+  thisWeek: number; // minutes, Monday through today
+  lastWeek: number; // minutes over the same days last week
+  change: number | null; // fraction, null when last week had none
+}
+
+export interface FocusAnalytics {
+  timezone: string;
+  today: string;
+  start: string;
+  end: string;
+  totalMinutes: number;
+  totalSessions: number;
+  averageSessionMinutes: number | null;
+  daily: PeriodTotal[];
+  weekly: PeriodTotal[];
+  monthly: PeriodTotal[];
+  byHour: FocusTotal[]; // 24 entries, by local start hour
+  byWeekday: FocusTotal[]; // 7 entries, Monday first
+  bestHour: number | null;
+  bestWeekday: number | null;
+  weekOverWeek: WeekOverWeek;
+  completion: CompletionStats;
+}
+
+export const DEFAULT_WEEKS = 12;
+export const MAX_WEEKS = 52;
+
+// `weeks` whole weeks ending with the current one, which may be partial
+export function getAnalyticsRange(today: string, weeks: number): { start: string; end: string } {
+  const thisMonday = addDays(today, -getWeekday(today));
+  return { start: addDays(thisMonday, -7 * (weeks - 1)), end: today };
+}
+
+const emptyTotals = (count: number): FocusTotal[] =>
+  Array.from({ length: count }, () => ({ minutes: 0, sessions: 0 }));
+
+function addTo(totals: Map<string, FocusTotal>, key: string, session: FocusSession) {
+  const total = totals.get(key);
+  if (!total) return;
+  total.minutes += session.minutes;
+  total.sessions += 1;
+}
+
+// Index of the largest minutes total, or null when there are none
+function getBest(totals: FocusTotal[]): number | null {
+  let best: number | null = null;
+  totals.forEach((total, index) => {
+    if (total.minutes > 0 && (best === null || total.minutes > totals[best].minutes)) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+const toPeriods = (totals: Map<string, FocusTotal>): PeriodTotal[] =>
+  Array.from(totals.entries()).map(([period, total]) => ({ period, ...total }));
+
+// `sessions` are the validated sessions in `range`; periods with no focus are
+// still listed so charts have no gaps
+export function buildFocusAnalytics(
+  sessions: FocusSession[],
+  completion: CompletionStats,
+  range: { start: string; end: string },
+  timezone: string
+): FocusAnalytics {
+  const days = new Map<string, FocusTotal>();
+  const weeks = new Map<string, FocusTotal>();
+  const months = new Map<string, FocusTotal>();
+  for (let day = range.start; day <= range.end; day = addDays(day, 1)) {
+    days.set(day, { minutes: 0, sessions: 0 });
+    weeks.set(addDays(day, -getWeekday(day)), { minutes: 0, sessions: 0 });
+    months.set(day.slice(0, 7), { minutes: 0, sessions: 0 });
+  }
+
+  const byHour = emptyTotals(24);
+  const byWeekday = emptyTotals(7);
+  let totalMinutes = 0;
+
+  sessions.forEach((session) => {
+    addTo(days, session.day, session);
+    addTo(weeks, addDays(session.day, -getWeekday(session.day)), session);
+    addTo(months, session.day.slice(0, 7), session);
+
+    const hour = byHour[getLocalHour(Date.parse(session.startTime), timezone)];
+    hour.minutes += session.minutes;
+    hour.sessions += 1;
+    const weekday = byWeekday[getWeekday(session.day)];
+    weekday.minutes += session.minutes;
+    weekday.sessions += 1;
+
+    totalMinutes += session.minutes;
+  });
+
+  // Week to date against the same stretch of last week
+  const thisMonday = addDays(range.end, -getWeekday(range.end));
+  const minutesBetween = (from: string, to: string) => sessions
+    .filter((session) => session.day >= from && session.day <= to)
+    .reduce((sum, session) => sum + session.minutes, 0);
+  const thisWeek = minutesBetween(thisMonday, range.end);
+  const lastWeek = minutesBetween(addDays(thisMonday, -7), addDays(range.end, -7));
+
+  return {
+    timezone,
+    today: range.end,
+    start: range.start,
+    end: range.end,
+    totalMinutes,
+    totalSessions: sessions.length,
+    averageSessionMinutes: sessions.length > 0 ? totalMinutes / sessions.length : null,
+    daily: toPeriods(days),
+    weekly: toPeriods(weeks),
+    monthly: toPeriods(months),
+    byHour,
+    byWeekday,
+    bestHour: getBest(byHour),
+    bestWeekday: getBest(byWeekday),
+    weekOverWeek: {
+      thisWeek,
+      lastWeek,
+      change: lastWeek > 0 ? (thisWeek - lastWeek) / lastWeek : null
+    },
+    completion
+  };
+}
+
+export async function loadFocusAnalytics(
+  supabase: any,
+  userId: string,
+  timezone: string,
+  range: { start: string; end: string }
+): Promise<FocusAnalytics> {
+  const sessions = await loadFocusSessions(supabase, userId, timezone, range.start, range.end);
+
+  // Completion counts every session started here in the range, validated or
+  // not; imported history has no abandons to count against it
+  const from = new Date(getDayStart(range.start, timezone)).toISOString();
+  const to = new Date(getDayStart(addDays(range.end, 1), timezone)).toISOString();
+
+  const { data: started, error } = await supabase
+    .from('timer_sessions')
+    .select('id, completed, abandoned_at, abandon_reason')
+    .eq('user_id', userId)
+    .is('import_id', null)
+    .gte('start_time', from)
+    .lt('start_time', to);
+
+  if (error) throw error;
+
+  const { count: interruptions } = await supabase
+    .from('timer_interruptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .gte('at', from)
+    .lt('at', to);
+
+  return buildFocusAnalytics(
+    sessions,
+    getCompletionStats(started || [], interruptions || 0),
+    range,
+    timezone
+  );
+}
@@ -0,0 +1,86 @@
+// Validated focus time grouped by local day, for the Streaks page heatmap
+
+import { addDays, getDayStart, getLocalDay, getWeekday, resolveTimezone } from './timezones';
+
+export interface FocusDay {
+  day: string; // YYYY-MM-DD
+  minutes: number;
+  sessions: number;
+}
+
+export interface FocusSession {
+  id: string;
+  day: string;
+  startTime: string;
+  endTime: string;
+  minutes: number;
+  task: string | null;
+  project: string | null;
+}
+
+// Sessions that count as focus history: validated ones plus any import.
+// Use with `.or()`.
+export const FOCUS_SESSIONS_FILTER = 'validated.eq.true,import_scope.not.is.null';
+
+// 53 weeks ending on `end`, starting on a Monday so the grid has full columns
+export function getCalendarRange(end: string): { start: string; end: string } {
+  return { start: addDays(end, -(52 * 7 + getWeekday(end))), end };
+}
+
+// Focus sessions that ended within [start, end] in local days. Each session
+// is placed on the day it ended in the zone its streak day was counted in.
+// The heatmap passes STREAK_SESSIONS_FILTER so it shows the days streaks count.
+export async function loadFocusSessions(
+  supabase: any,
+  userId: string,
+  timezone: string,
+  start: string,
+  end: string,
+  filter: string = FOCUS_SESSIONS_FILTER
+): Promise<FocusSession[]> {
+  // A day from either edge covers every UTC offset
+  const from = getDayStart(addDays(start, -1), timezone);
+  const to = getDayStart(addDays(end, 2), timezone);
+
+  const { data: streak } = await supabase
+    .from('streaks')
+    .select('timezone, timezone_auto')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const { data: rows, error } = await supabase
+    .from('timer_sessions')
+    .select('id, start_time, end_time, duration, timezone, task, project')
+    .eq('user_id', userId)
+    .eq('completed', true)
+    .or(filter)
+    .gte('end_time', new Date(from).toISOString())
+    .lt('end_time', new Date(to).toISOString())
+    .order('end_time', { ascending: true });
+
+  if (error) throw error;
+
+  return (rows || [])
+    .map((row: any) => ({
+      id: row.id,
+      day: getLocalDay(new Date(row.end_time).getTime(), resolveTimezone(streak, row.timezone || null)),
+      startTime: row.start_time,
+      endTime: row.end_time,
+      minutes: Math.round(row.duration / 60),
+      task: row.task || null,
+      project: row.project || null
+    }))
+    .filter((session: FocusSession) => session.day >= start && session.day <= end);
+}
+
+// Days with focus time, in date order
+export function aggregateFocusDays(sessions: FocusSession[]): FocusDay[] {
+  const days = new Map<string, FocusDay>();
+  sessions.forEach((session) => {
+    const day = days.get(session.day) || { day: session.day, minutes: 0, sessions: 0 };
+    day.minutes += session.minutes;
+    day.sessions += 1;
+    days.set(session.day, day);
+  });
+  return Array.from(days.values()).sort((a, b) => a.day.localeCompare(b.day));
+}
@@ -0,0 +1,91 @@
+// Daily focus goal: what a day needs before it counts toward the streak
+
+export type GoalType = 'minutes' | 'sessions';
+
+export interface DailyGoal {
+  type: GoalType;
+  target: number;
+}
+
+export interface GoalProgress {
+  day: string; // YYYY-MM-DD in the user's timezone
+  minutes: number;
+  sessions: number;
+  done: number; // toward the target, in the goal's unit
+  target: number;
+  met: boolean;
+}
+
+// One session of any length, as before goals existed
+export const DEFAULT_GOAL: DailyGoal = { type: 'sessions', target: 1 };
+
+const GOAL_LIMITS: Record<GoalType, { min: number; max: number }> = {
+  minutes: { min: 5, max: 720 },
+  sessions: { min: 1, max: 24 }
+};
+
+export function toDailyGoal(streak: any): DailyGoal {
+  const type = streak?.goal_type;
+  const target = streak?.goal_target;
+  if ((type === 'minutes' || type === 'sessions') && Number.isInteger(target) && target > 0) {
+    return { type, target };
+  }
+  return DEFAULT_GOAL;
+}
+
+// Returns an error message, or null when the goal is usable
+export function validateGoal(goal: any): string | null {
+  if (!goal || (goal.type !== 'minutes' && goal.type !== 'sessions')) {
+    return 'Goal type must be minutes or sessions';
+  }
+  const { min, max } = GOAL_LIMITS[goal.type as GoalType];
+  if (!Number.isInteger(goal.target) || goal.target < min || goal.target > max) {
+    return `Goal must be between ${min} and ${max} ${goal.type}`;
+  }
+  return null;
+}
+
+export function getGoalProgress(
+  goal: DailyGoal,
+  day: string,
+  totals: { minutes: number; sessions: number }
+): GoalProgress {
+  const done = goal.type === 'minutes' ? totals.minutes : totals.sessions;
+  return {
+    day,
+    minutes: totals.minutes,
+    sessions: totals.sessions,
+    done,
+    target: goal.target,
+    met: done >= goal.target
+  };
+}
+
+export interface GoalChange {
+  effectiveFrom: string; // YYYY-MM-DD in the user's timezone
+  goal: DailyGoal;
+}
+
+// Goals only apply from the day they were set, so past days keep the goal they
+// were earned under. `history` is sorted by effectiveFrom.
+export function getGoalForDay(history: GoalChange[], day: string): DailyGoal {
+  let goal = DEFAULT_GOAL;
+  for (const change of history) {
+    if (change.effectiveFrom > day) break;
+    goal = change.goal;
+  }
+  return goal;
+}
+
+export async function loadGoalHistory(supabase: any, userId: string): Promise<GoalChange[]> {
+  const { data: rows } = await supabase
+    .from('daily_goals')
+    .select('goal_type, goal_target, effective_from')
+    .eq('user_id', userId)
+    .order('effective_from', { ascending: true });
+
+  return (rows || []).map((row: any) => ({
+    effectiveFrom: row.effective_from,
+    goal: toDailyGoal(row)
+  }));
+}
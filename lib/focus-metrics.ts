@@ -0,0 +1,49 @@
+// Completion and interruption metrics over `timer_sessions` rows
+
+export const ABANDON_REASONS = {
+  distracted: 'Got distracted',
+  urgent_task: 'Something urgent came up',
+  meeting: 'Meeting or call',
+  finished_early: 'Finished the task early',
+  tired: 'Too tired to focus',
+  other: 'Other'
+} as const;
+
+export type AbandonReason = keyof typeof ABANDON_REASONS;
+
+export type InterruptionKind = 'internal' | 'external';
+
+export interface CompletionStats {
+  completed: number;
+  abandoned: number;
+  completionRate: number | null; // 0-1, null until a session has ended
+  interruptions: number;
+  interruptionsPerSession: number | null;
+  abandonReasons: Partial<Record<AbandonReason, number>>;
+}
+
+export function isAbandonReason(value: unknown): value is AbandonReason {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ABANDON_REASONS, value);
+}
+
+// Ended sessions only: running ones haven't been decided yet
+export function getCompletionStats(sessions: any[], interruptions: number): CompletionStats {
+  const completed = sessions.filter((row) => row.completed && !row.abandoned_at).length;
+  const abandonedRows = sessions.filter((row) => row.abandoned_at);
+  const ended = completed + abandonedRows.length;
+
+  const abandonReasons: Partial<Record<AbandonReason, number>> = {};
+  abandonedRows.forEach((row) => {
+    const reason: AbandonReason = isAbandonReason(row.abandon_reason) ? row.abandon_reason : 'other';
+    abandonReasons[reason] = (abandonReasons[reason] || 0) + 1;
+  });
+
+  return {
+    completed,
+    abandoned: abandonedRows.length,
+    completionRate: ended > 0 ? completed / ended : null,
+    interruptions,
+    interruptionsPerSession: ended > 0 ? interruptions / ended : null,
+    abandonReasons
+  };
+}
@@ -0,0 +1,191 @@
+// Daily mantra and quest: prompts and fallbacks for the text provider. Mantras
+// are checked against the user's recent ones so the same line doesn't come
+// back within weeks.
+
+import { GeneratedText, generateText, hashSeed } from './text-generation';
+
+const MAX_MANTRA_LENGTH = 80;
+const MAX_ATTEMPTS = 3;
+const MAX_EXCLUSIONS_IN_PROMPT = 20;
+const SIMILARITY_THRESHOLD = 0.6; // word overlap (Jaccard) that counts as a repeat
+
+export const FALLBACK_MANTRAS = [
+  "Focus on progress, not perfection.",
+  "Every minute of focus builds your future.",
+  "Discipline is choosing between what you want now and what you want most.",
+  "Your future self will thank you for not giving up.",
+  "Small steps daily lead to big changes yearly.",
+  "The pain of discipline weighs ounces, regret weighs tons.",
+  "Winners focus on winning, losers focus on winners.",
+  "Success is the sum of small efforts repeated daily.",
+  "Your only limit is your mind.",
+  "Dream it. Believe it. Build it.",
+  "One focused hour beats a distracted day.",
+  "Start before you feel ready.",
+  "Do the hard thing first, then let the day get easier.",
+  "Attention is your most valuable currency. Spend it well.",
+  "Consistency turns ordinary effort into extraordinary results.",
+  "Finish what you start, one session at a time.",
+  "The work you avoid is usually the work that matters.",
+  "Quiet the noise. Do the next right thing.",
+  "Momentum is built, not found.",
+  "You don't need more time, you need more focus.",
+  "Show up today; motivation will catch up.",
+  "Deep work now, free time later.",
+  "A clear goal makes every minute count.",
+  "Trade busy for meaningful.",
+  "Protect your focus like it's your future, because it is.",
+  "Progress loves a timer and a closed tab.",
+  "Be stubborn about the goal and flexible about the path.",
+  "Tiny wins stack into big victories.",
+  "The best time to begin was earlier. The next best is now.",
+  "Less scrolling, more building.",
+  "Your habits are writing your story. Make it a good one.",
+  "Done is a decision you make every day.",
+  "Effort compounds like interest.",
+  "Stay with the task for one more minute.",
+  "Clarity comes from action, not from thinking about action.",
+  "Rest is part of the work. Return sharper.",
+  "Make today's version of you proud.",
+  "Focus is saying no to a thousand good ideas.",
+  "Every session is a vote for who you want to become.",
+  "Slow progress is still progress."
+];
+
+export const DEFAULT_QUESTS = [
+  "Write 3 things you're grateful for today",
+  "Read 10 pages of a personal development book",
+  "Complete a 10-minute meditation session",
+  "Review and update your monthly budget",
+  "Reach out to someone you haven't talked to recently",
+  "Do 25 pushups or a 5-minute workout",
+  "Declutter one area of your workspace",
+  "Learn one new professional skill for 15 minutes"
+];
+
+export function getFallbackMantra(): string {
+  return FALLBACK_MANTRAS[Math.floor(Math.random() * FALLBACK_MANTRAS.length)];
+}
+
+export function getDefaultQuest(): string {
+  return DEFAULT_QUESTS[Math.floor(Math.random() * DEFAULT_QUESTS.length)];
+}
+
+// Lowercase words without punctuation, so "Focus, now!" matches "focus now"
+export function normalizeMantra(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Jaccard similarity of the two mantras' word sets, 0-1
+export function mantraSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normalizeMantra(a).split(' ').filter(Boolean));
+  const wordsB = new Set(normalizeMantra(b).split(' ').filter(Boolean));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+export function isNearDuplicate(text: string, recent: string[]): boolean {
+  return recent.some((previous) => mantraSimilarity(text, previous) >= SIMILARITY_THRESHOLD);
+}
+
+// Walks the pool in an order fixed per user, skipping anything in `recent`
+// (newest first). Once everything has been used, the least recent comes back.
+export function pickFallbackMantra(userId: string, recent: string[]): string {
+  const order = FALLBACK_MANTRAS
+    .map((mantra) => ({ mantra, rank: hashSeed(`${userId}:${mantra}`) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ mantra }) => mantra);
+
+  const lastUsed = (mantra: string) => {
+    const index = recent.findIndex((previous) => normalizeMantra(previous) === normalizeMantra(mantra));
+    return index === -1 ? Infinity : index;
+  };
+
+  return order.reduce((best, mantra) => lastUsed(mantra) > lastUsed(best) ? mantra : best);
+}
+
+const truncateMantra = (text: string) => text.length <= MAX_MANTRA_LENGTH
+  ? text
+  : text.substring(0, MAX_MANTRA_LENGTH - 3) + '...';
+
+// `recent` is the user's recent mantras, newest first. Model output that
+// repeats one is retried; templates come from the rotation instead.
+export async function generateMantra(
+  profile: { focusArea: string; motivationStyle: string },
+  userId: string,
+  today: string,
+  recent: string[]
+): Promise<GeneratedText> {
+  const fallback = pickFallbackMantra(userId, recent);
+  const exclusions = recent.slice(0, MAX_EXCLUSIONS_IN_PROMPT);
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const result = await generateText({
+      system: `You are a motivational coach. Generate a single, powerful motivational mantra.
+            Requirements:
+            - Maximum ${MAX_MANTRA_LENGTH} characters
+            - Focus area: ${profile.focusArea}
+            - Style: ${profile.motivationStyle}
+            - No quotes or attribution
+            - Action-oriented and personal
+            - Fresh and unique, not cliché${exclusions.length > 0 ? `
+            - Must not repeat or closely paraphrase any of these recent mantras:
+${exclusions.map((mantra) => `              - ${mantra}`).join('\n')}` : ''}`,
+      prompt: 'Generate a motivational mantra for today.',
+      maxTokens: 30,
+      temperature: 0.9,
+      presencePenalty: 0.6, // Encourage unique responses
+      templates: [fallback],
+      seed: `${userId}:${today}:${attempt}`
+    });
+
+    if (result.fallback) return result;
+
+    const text = truncateMantra(result.text);
+    if (!isNearDuplicate(text, recent)) {
+      return { ...result, text };
+    }
+    console.error(`Generated mantra repeats a recent one (attempt ${attempt + 1})`);
+  }
+
+  return { text: fallback, provider: 'template', fallback: true };
+}
+
+// The user's most recent mantras, newest first; enough to cover the fallback
+// pool so the rotation can tell what's been used
+export async function loadRecentMantras(supabase: any, userId: string): Promise<string[]> {
+  const { data: rows } = await supabase
+    .from('daily_mantras')
+    .select('mantra')
+    .eq('user_id', userId)
+    .order('generated_at', { ascending: false })
+    .limit(FALLBACK_MANTRAS.length);
+
+  return (rows || []).map((row: any) => row.mantra);
+}
+
+export async function generateQuest(seed: string): Promise<GeneratedText> {
+  return generateText({
+    system: `Generate a simple daily challenge for personal growth.
+          Requirements:
+          - One specific, actionable task
+          - Can be completed in 5-30 minutes
+          - Focus on: finance, mindset, health, or productivity
+          - Maximum 100 characters
+          - Start with a verb (Write, Read, Complete, etc.)`,
+    prompt: 'Generate today\'s daily quest.',
+    maxTokens: 40,
+    temperature: 0.8,
+    templates: DEFAULT_QUESTS,
+    seed
+  });
+}
@@ -0,0 +1,77 @@
+// Pomodoro cycle: work, short break, ..., long break every N rounds
+// Import-free so scripts/build-sw-lib.js can ship it to the service worker.
+
+export type CyclePhase = 'work' | 'short_break' | 'long_break';
+
+export interface CycleConfig {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  roundsBeforeLongBreak: number;
+}
+
+export interface CycleState {
+  config: CycleConfig;
+  phase: CyclePhase;
+  round: number; // 1-based work round within the current set
+}
+
+export const DEFAULT_CYCLE: CycleConfig = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  roundsBeforeLongBreak: 4
+};
+
+export const PHASE_LABELS: Record<CyclePhase, string> = {
+  work: 'Focus',
+  short_break: 'Short Break',
+  long_break: 'Long Break'
+};
+
+export function isBreakPhase(phase: CyclePhase): boolean {
+  return phase !== 'work';
+}
+
+// Phase length in seconds
+export function getPhaseDuration(config: CycleConfig, phase: CyclePhase): number {
+  switch (phase) {
+    case 'work':
+      return config.workMinutes * 60;
+    case 'short_break':
+      return config.shortBreakMinutes * 60;
+    case 'long_break':
+      return config.longBreakMinutes * 60;
+  }
+}
+
+// The phase that follows `state` once it finishes
+export function getNextPhase(state: CycleState): CycleState {
+  if (state.phase === 'work') {
+    const longBreak = state.round >= state.config.roundsBeforeLongBreak;
+    return {
+      ...state,
+      phase: longBreak ? 'long_break' : 'short_break'
+    };
+  }
+
+  return {
+    ...state,
+    phase: 'work',
+    round: state.phase === 'long_break' ? 1 : state.round + 1
+  };
+}
+
+// Returns an error message, or null when the config is usable
+export function validateCycleConfig(config: CycleConfig): string | null {
+  const minutes = [config.workMinutes, config.shortBreakMinutes, config.longBreakMinutes];
+  if (minutes.some((value) => !Number.isInteger(value) || value < 1 || value > 240)) {
+    return 'Phase lengths must be whole minutes between 1 and 240';
+  }
+  if (!Number.isInteger(config.roundsBeforeLongBreak)
+    || config.roundsBeforeLongBreak < 1
+    || config.roundsBeforeLongBreak > 12) {
+    return 'Rounds before a long break must be between 1 and 12';
+  }
+  return null;
+}
@@ -0,0 +1,117 @@
+// Daily quest completion: history and the quest streak, kept apart from the
+// focus streak. Quest days are local days in the user's timezone.
+
+import { addDays } from './timezones';
+
+export interface QuestDay {
+  date: string; // YYYY-MM-DD
+  quest: string;
+  completed: boolean;
+  completedAt: string | null;
+}
+
+export interface QuestStreak {
+  currentStreak: number;
+  longestStreak: number;
+  totalCompleted: number;
+}
+
+export const DEFAULT_HISTORY_DAYS = 30;
+export const MAX_HISTORY_DAYS = 365;
+
+// Today's quest can still be done, so an unfinished today doesn't break the
+// current streak; it counts back from yesterday instead
+export function getQuestStreak(completedDates: string[], today: string): QuestStreak {
+  const done = new Set(completedDates);
+
+  let currentStreak = 0;
+  let day = done.has(today) ? today : addDays(today, -1);
+  while (done.has(day)) {
+    currentStreak++;
+    day = addDays(day, -1);
+  }
+
+  let longestStreak = 0;
+  let run = 0;
+  let previous: string | null = null;
+  Array.from(done).sort().forEach((date) => {
+    run = previous !== null && addDays(previous, 1) === date ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previous = date;
+  });
+
+  return { currentStreak, longestStreak, totalCompleted: done.size };
+}
+
+function toQuestDay(row: any): QuestDay {
+  return {
+    date: row.date,
+    quest: row.quest,
+    completed: !!row.completed,
+    completedAt: row.completed_at || null
+  };
+}
+
+// The quests from the last `days` days up to `today`, newest first
+export async function loadQuestHistory(
+  supabase: any,
+  userId: string,
+  today: string,
+  days: number
+): Promise<QuestDay[]> {
+  const { data: rows, error } = await supabase
+    .from('daily_quests')
+    .select('date, quest, completed, completed_at')
+    .eq('user_id', userId)
+    .gt('date', addDays(today, -days))
+    .lte('date', today)
+    .order('date', { ascending: false });
+
+  if (error) throw error;
+  return (rows || []).map(toQuestDay);
+}
+
+export async function loadQuestStreak(supabase: any, userId: string, today: string): Promise<QuestStreak> {
+  const completedDates: string[] = [];
+
+  // Paged, since responses are capped at 1000 rows
+  for (let offset = 0; ; offset += 1000) {
+    const { data: rows, error } = await supabase
+      .from('daily_quests')
+      .select('date')
+      .eq('user_id', userId)
+      .eq('completed', true)
+      .lte('date', today)
+      .order('date', { ascending: true })
+      .range(offset, offset + 999);
+
+    if (error) throw error;
+    (rows || []).forEach((row: any) => completedDates.push(row.date));
+    if (!rows || rows.length < 1000) break;
+  }
+  return getQuestStreak(completedDates, today);
+}
+
+// Marks the quest for `day` done or not done. Only quests the server stored
+// when serving them can be completed; returns null when there is none.
+export async function setQuestCompleted(
+  supabase: any,
+  userId: string,
+  day: string,
+  completed: boolean
+): Promise<QuestDay | null> {
+  const changes = {
+    completed,
+    completed_at: completed ? new Date().toISOString() : null
+  };
+
+  const { data: updated, error } = await supabase
+    .from('daily_quests')
+    .update(changes)
+    .eq('user_id', userId)
+    .eq('date', day)
+    .select('date, quest, completed, completed_at');
+
+  if (error) throw error;
+  return updated && updated.length > 0 ? toQuestDay(updated[0]) : null;
+}
@@ -0,0 +1,39 @@
+// Audit log of rejected or suspicious requests (`security_events`)
+
+import { NextRequest } from 'next/server';
+
+export type SecurityEventKind =
+  | 'invalid_token'
+  | 'token_mismatch'
+  | 'replayed_heartbeat'
+  | 'out_of_order_heartbeat'
+  | 'reused_nonce'
+  | 'heartbeat_rate_limited';
+
+export async function logSecurityEvent(
+  supabase: any,
+  request: NextRequest,
+  event: {
+    kind: SecurityEventKind;
+    userId: string;
+    sessionId?: string | null;
+    detail?: Record<string, unknown>;
+  }
+) {
+  const { error } = await supabase
+    .from('security_events')
+    .insert({
+      user_id: event.userId,
+      session_id: event.sessionId ?? null,
+      kind: event.kind,
+      detail: event.detail ?? {},
+      ip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.ip || null,
+      user_agent: request.headers.get('user-agent'),
+      created_at: new Date().toISOString()
+    });
+
+  // Never fail the request because the audit write did
+  if (error) {
+    console.error('Security event insert failed:', error);
+  }
+}
@@ -0,0 +1,219 @@
+// Exports a user's `timer_sessions` as CSV, JSON or iCalendar. Rows are read a
+// page at a time and written to a stream, so long histories never sit in memory.
+
+import { getActiveElapsed } from './timer-sessions';
+
+export type ExportFormat = 'csv' | 'json' | 'ics';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  ics: { contentType: 'text/calendar; charset=utf-8', extension: 'ics' }
+};
+
+export interface ExportedSession {
+  id: string;
+  start: string;
+  end: string | null;
+  status: 'completed' | 'abandoned' | 'active';
+  plannedMinutes: number;
+  focusMinutes: number;
+  pausedMinutes: number;
+  validated: boolean;
+  suspicious: boolean;
+  task: string | null;
+  project: string | null;
+  timezone: string | null;
+  abandonReason: string | null;
+  importSource: string | null; // the app it was imported from
+}
+
+// Rows per database page
+const PAGE_SIZE = 500;
+
+const CSV_COLUMNS: (keyof ExportedSession)[] = [
+  'id',
+  'start',
+  'end',
+  'status',
+  'plannedMinutes',
+  'focusMinutes',
+  'pausedMinutes',
+  'validated',
+  'suspicious',
+  'task',
+  'project',
+  'timezone',
+  'abandonReason',
+  'importSource'
+];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
+
+const toMinutes = (ms: number) => Math.round(ms / 600) / 100;
+
+export function toExportedSession(row: any): ExportedSession {
+  return {
+    id: row.id,
+    start: new Date(row.start_time).toISOString(),
+    end: row.end_time ? new Date(row.end_time).toISOString() : null,
+    status: row.abandoned_at ? 'abandoned' : row.completed ? 'completed' : 'active',
+    plannedMinutes: toMinutes(row.duration * 1000),
+    focusMinutes: toMinutes(getActiveElapsed(row)),
+    pausedMinutes: toMinutes(row.total_paused || 0),
+    validated: !!row.validated,
+    suspicious: !!row.suspicious,
+    task: row.task || null,
+    project: row.project || null,
+    timezone: row.timezone || null,
+    abandonReason: row.abandon_reason || null,
+    importSource: row.import_source || null
+  };
+}
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  // Leading formula characters would run as formulas in spreadsheets
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function toIcsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+const toIcsTime = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545)
+function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = Math.min(rest.length, 75);
+    while (Buffer.byteLength(rest.slice(0, cut)) > 75) cut--;
+    chunks.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  chunks.push(rest);
+  return chunks.join('\r\n ');
+}
+
+function toIcsEvent(session: ExportedSession, stamp: string): string {
+  const title = session.task || session.project
+    ? `Focus: ${[session.task, session.project && `#${session.project}`].filter(Boolean).join(' ')}`
+    : 'Focus session';
+  const description = [
+    `${session.focusMinutes} min focused`,
+    session.pausedMinutes > 0 ? `${session.pausedMinutes} min paused` : null,
+    session.status === 'abandoned' ? 'abandoned' : session.importSource ? `imported from ${session.importSource}` : session.validated ? 'validated' : 'not validated'
+  ].filter(Boolean).join(', ');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${session.id}@pwa-focus-timer`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${toIcsTime(session.start)}`,
+    `DTEND:${toIcsTime(session.end!)}`,
+    `SUMMARY:${toIcsText(title)}`,
+    `DESCRIPTION:${toIcsText(description)}`,
+    ...(session.project ? [`CATEGORIES:${toIcsText(session.project)}`] : []),
+    'END:VEVENT'
+  ].map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// Formats sessions as they arrive: a header, one chunk per session, a footer
+export function getExportWriter(format: ExportFormat) {
+  const stamp = toIcsTime(new Date().toISOString());
+  let first = true;
+
+  switch (format) {
+    case 'csv':
+      return {
+        header: CSV_COLUMNS.join(',') + '\r\n',
+        write: (session: ExportedSession) =>
+          CSV_COLUMNS.map((column) => toCsvField(session[column])).join(',') + '\r\n',
+        footer: ''
+      };
+    case 'json':
+      return {
+        header: '[',
+        write: (session: ExportedSession) => {
+          const chunk = (first ? '\n' : ',\n') + JSON.stringify(session);
+          first = false;
+          return chunk;
+        },
+        footer: '\n]\n'
+      };
+    case 'ics':
+      return {
+        header: 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:-//PWA Focus Timer//Session Export//EN\r\nCALSCALE:GREGORIAN\r\n',
+        // A calendar event needs an end, so running sessions are left out
+        write: (session: ExportedSession) => session.end ? toIcsEvent(session, stamp) : '',
+        footer: 'END:VCALENDAR\r\n'
+      };
+  }
+}
+
+// Streams every session started in [from, to), oldest first. `loadPage` is
+// swappable so demo mode can export sample rows.
+export function streamSessionExport(
+  format: ExportFormat,
+  loadPage: (from: number, to: number) => Promise<any[]>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const writer = getExportWriter(format);
+  let offset = 0;
+  let done = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(writer.header));
+    },
+    async pull(controller) {
+      if (done) return;
+      try {
+        const rows = await loadPage(offset, offset + PAGE_SIZE - 1);
+        offset += rows.length;
+
+        const chunk = rows.map((row) => writer.write(toExportedSession(row))).join('');
+        if (chunk) controller.enqueue(encoder.encode(chunk));
+
+        if (rows.length < PAGE_SIZE) {
+          done = true;
+          controller.enqueue(encoder.encode(writer.footer));
+          controller.close();
+        }
+      } catch (error) {
+        console.error('Session export failed:', error);
+        controller.error(error);
+      }
+    }
+  });
+}
+
+export function loadSessionPage(
+  supabase: any,
+  userId: string,
+  range: { from: string | null; to: string | null }
+) {
+  return async (from: number, to: number): Promise<any[]> => {
+    let query = supabase
+      .from('timer_sessions')
+      .select('id, start_time, end_time, duration, completed, validated, suspicious, total_paused, paused_at, task, project, timezone, abandoned_at, abandon_reason, import_source')
+      .eq('user_id', userId);
+
+    if (range.from) query = query.gte('start_time', range.from);
+    if (range.to) query = query.lt('start_time', range.to);
+
+    const { data: rows, error } = await query
+      .order('start_time', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to);
+
+    if (error) throw error;
+    return rows || [];
+  };
+}
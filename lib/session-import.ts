@@ -0,0 +1,370 @@
+// Imports focus history exported from other timer apps into `timer_sessions`.
+// Imported rows are completed but never validated; `import_scope` decides
+// whether they count toward analytics only or toward streaks as well.
+
+import { randomUUID } from 'crypto';
+import { rebuildStreak } from './streaks';
+import { syncAchievements } from './achievements';
+import { getLocalTime } from './timezones';
+
+export type ImportScope = 'analytics' | 'streaks';
+
+// A column name, or several whose values are joined with a space
+// (for apps that export the date and time separately)
+type Column = string | string[];
+
+export interface FieldMapping {
+  start: Column;
+  end?: Column;
+  durationMinutes?: Column; // used when there is no end column
+  task?: Column;
+  project?: Column;
+}
+
+interface ImportSource {
+  label: string;
+  mapping: FieldMapping | null; // null when the user supplies one
+  skip?: (record: ImportRecord) => boolean;
+}
+
+type ImportRecord = Record<string, string>;
+
+export const IMPORT_SOURCES = {
+  'focus-timer': {
+    label: 'PWA Focus Timer export (CSV or JSON)',
+    mapping: { start: 'start', end: 'end', task: 'task', project: 'project' },
+    skip: (record: ImportRecord) => !!record.status && record.status !== 'completed'
+  },
+  toggl: {
+    label: 'Toggl Track (detailed CSV)',
+    mapping: {
+      start: ['Start date', 'Start time'],
+      end: ['End date', 'End time'],
+      task: 'Description',
+      project: 'Project'
+    }
+  },
+  forest: {
+    label: 'Forest (CSV)',
+    mapping: { start: 'Start Time', end: 'End Time', task: 'Note', project: 'Tag' },
+    skip: (record: ImportRecord) => /^false$/i.test(record['is success'] || '')
+  },
+  generic: {
+    label: 'Other (choose the columns)',
+    mapping: null
+  }
+} satisfies Record<string, ImportSource>;
+
+export type ImportSourceId = keyof typeof IMPORT_SOURCES;
+
+export interface ParsedSession {
+  row: number; // 1-based, as shown in a spreadsheet's data rows
+  start: number;
+  end: number;
+  task: string | null;
+  project: string | null;
+}
+
+export interface ImportPreview {
+  total: number;
+  sessions: ParsedSession[]; // new sessions, ready to insert
+  duplicates: number;
+  skipped: number;
+  errors: { row: number; message: string }[];
+}
+
+export const MAX_IMPORT_ROWS = 20000;
+const MAX_ERRORS = 20;
+const MIN_SESSION_MS = 60 * 1000;
+const MAX_SESSION_MS = 12 * 3600 * 1000;
+const DUPLICATE_WINDOW_MS = 60 * 1000;
+const INSERT_BATCH = 500;
+const MAX_TAG_LENGTH = 100;
+
+export function isImportSource(value: unknown): value is ImportSourceId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(IMPORT_SOURCES, value);
+}
+
+export function isImportScope(value: unknown): value is ImportScope {
+  return value === 'analytics' || value === 'streaks';
+}
+
+// Returns an error message, or null when the mapping is usable
+export function validateMapping(mapping: any): string | null {
+  const isColumn = (value: unknown) =>
+    (typeof value === 'string' && value.trim() !== '') ||
+    (Array.isArray(value) && value.length > 0 && value.every((part) => typeof part === 'string' && part.trim() !== ''));
+
+  if (!mapping || !isColumn(mapping.start)) {
+    return 'Choose the column with each session\'s start time';
+  }
+  if (!isColumn(mapping.end) && !isColumn(mapping.durationMinutes)) {
+    return 'Choose an end time or a duration column';
+  }
+  for (const field of ['end', 'durationMinutes', 'task', 'project']) {
+    if (mapping[field] !== undefined && mapping[field] !== '' && !isColumn(mapping[field])) {
+      return `Invalid ${field} column`;
+    }
+  }
+  return null;
+}
+
+// RFC 4180 CSV: quoted fields may hold commas, quotes and newlines
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+// CSV with a header row, or a JSON array of objects. Keys are lowercased so
+// column names match regardless of case.
+export function parseRecords(content: string): ImportRecord[] {
+  const normalize = (entries: [string, unknown][]) => Object.fromEntries(
+    entries.map(([key, value]) => [key.trim().toLowerCase(), value === null || value === undefined ? '' : String(value)])
+  );
+
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+  if (trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    return parsed
+      .filter((item: unknown) => item && typeof item === 'object')
+      .map((item: object) => normalize(Object.entries(item)));
+  }
+
+  const [header, ...rows] = parseCsv(trimmed);
+  if (!header) return [];
+  return rows.map((cells) => normalize(header.map((name, i) => [name, cells[i]])));
+}
+
+function readColumn(record: ImportRecord, column: Column | undefined): string {
+  if (!column) return '';
+  const names = Array.isArray(column) ? column : [column];
+  return names.map((name) => (record[name.trim().toLowerCase()] || '').trim()).filter(Boolean).join(' ');
+}
+
+// Times with a zone or offset are exact; bare wall-clock times are read in
+// `timezone`, since most apps export the user's local time
+export function parseImportTime(value: string, timezone: string): number | null {
+  const local = value.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/);
+  if (local) {
+    const [, day, hours, minutes, seconds] = local;
+    const ms = ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds || 0)) * 1000;
+    return getLocalTime(day, ms, timezone);
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+const toTag = (value: string) => value.slice(0, MAX_TAG_LENGTH) || null;
+
+// Turns the file into sessions, reporting rows it can't use. Duplicates
+// within the file are dropped here; existing sessions are checked later.
+export function parseImport(
+  content: string,
+  source: ImportSourceId,
+  mapping: FieldMapping | null,
+  timezone: string,
+  now: number = Date.now()
+): ImportPreview {
+  const records = parseRecords(content);
+  const definition: ImportSource = IMPORT_SOURCES[source];
+  const fields = definition.mapping || mapping!;
+
+  const preview: ImportPreview = { total: records.length, sessions: [], duplicates: 0, skipped: 0, errors: [] };
+  const fail = (row: number, message: string) => {
+    if (preview.errors.length < MAX_ERRORS) preview.errors.push({ row, message });
+    preview.skipped++;
+  };
+
+  records.slice(0, MAX_IMPORT_ROWS).forEach((record, index) => {
+    const row = index + 1;
+    if (definition.skip?.(record)) {
+      preview.skipped++;
+      return;
+    }
+
+    const startValue = readColumn(record, fields.start);
+    const start = parseImportTime(startValue, timezone);
+    if (start === null) return fail(row, `Unreadable start time "${startValue}"`);
+
+    let end: number | null;
+    if (fields.end) {
+      const endValue = readColumn(record, fields.end);
+      end = parseImportTime(endValue, timezone);
+      if (end === null) return fail(row, `Unreadable end time "${endValue}"`);
+    } else {
+      const minutes = Number(readColumn(record, fields.durationMinutes));
+      end = Number.isFinite(minutes) ? start + minutes * 60000 : null;
+      if (end === null) return fail(row, 'Unreadable duration');
+    }
+
+    const length = end - start;
+    if (length < MIN_SESSION_MS || length > MAX_SESSION_MS) {
+      return fail(row, 'Sessions must be between 1 minute and 12 hours long');
+    }
+    if (end > now) return fail(row, 'Session ends in the future');
+
+    preview.sessions.push({
+      row,
+      start,
+      end,
+      task: toTag(readColumn(record, fields.task)),
+      project: toTag(readColumn(record, fields.project))
+    });
+  });
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    preview.skipped += records.length - MAX_IMPORT_ROWS;
+    preview.errors.push({ row: MAX_IMPORT_ROWS + 1, message: `Only the first ${MAX_IMPORT_ROWS} rows are imported` });
+  }
+
+  preview.sessions.sort((a, b) => a.start - b.start);
+  const unique = dropDuplicates(preview.sessions, []);
+  return { ...preview, sessions: unique.sessions, duplicates: unique.duplicates };
+}
+
+// Index where `time` belongs in the sorted `times`
+function findIndex(times: number[], time: number): number {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Drops sessions starting within a minute of an earlier one or of `existing`
+function dropDuplicates(
+  sessions: ParsedSession[],
+  existing: number[]
+): { sessions: ParsedSession[]; duplicates: number } {
+  const taken = existing.slice().sort((a, b) => a - b);
+  const kept: ParsedSession[] = [];
+
+  sessions.forEach((session) => {
+    const index = findIndex(taken, session.start);
+    const duplicate = [taken[index - 1], taken[index]].some(
+      (time) => time !== undefined && Math.abs(time - session.start) < DUPLICATE_WINDOW_MS
+    );
+    if (duplicate) return;
+    kept.push(session);
+    taken.splice(index, 0, session.start);
+  });
+  return { sessions: kept, duplicates: sessions.length - kept.length };
+}
+
+// Removes sessions the user already has, imported or recorded here
+export async function dropExistingSessions(
+  supabase: any,
+  userId: string,
+  preview: ImportPreview
+): Promise<ImportPreview> {
+  if (preview.sessions.length === 0) return preview;
+
+  const from = new Date(preview.sessions[0].start - DUPLICATE_WINDOW_MS).toISOString();
+  const to = new Date(preview.sessions[preview.sessions.length - 1].start + DUPLICATE_WINDOW_MS).toISOString();
+  const existing: number[] = [];
+
+  // Paged, since responses are capped at 1000 rows
+  for (let offset = 0; ; offset += 1000) {
+    const { data: rows, error } = await supabase
+      .from('timer_sessions')
+      .select('start_time')
+      .eq('user_id', userId)
+      .gte('start_time', from)
+      .lte('start_time', to)
+      .order('start_time', { ascending: true })
+      .range(offset, offset + 999);
+
+    if (error) throw error;
+    (rows || []).forEach((row: any) => existing.push(new Date(row.start_time).getTime()));
+    if (!rows || rows.length < 1000) break;
+  }
+
+  const unique = dropDuplicates(preview.sessions, existing);
+  return {
+    ...preview,
+    sessions: unique.sessions,
+    duplicates: preview.duplicates + unique.duplicates
+  };
+}
+
+// Stores the sessions as one import batch. Streak-scoped imports rebuild the
+// streak and badges so the history counts straight away.
+export async function importSessions(
+  supabase: any,
+  userId: string,
+  sessions: ParsedSession[],
+  source: ImportSourceId,
+  scope: ImportScope,
+  timezone: string
+): Promise<string> {
+  const importId = randomUUID();
+  const importedAt = new Date().toISOString();
+
+  for (let i = 0; i < sessions.length; i += INSERT_BATCH) {
+    const { error } = await supabase
+      .from('timer_sessions')
+      .insert(sessions.slice(i, i + INSERT_BATCH).map((session) => ({
+        id: randomUUID(),
+        user_id: userId,
+        start_time: new Date(session.start).toISOString(),
+        end_time: new Date(session.end).toISOString(),
+        duration: Math.round((session.end - session.start) / 1000),
+        completed: true,
+        validated: false,
+        suspicious: false,
+        total_paused: 0,
+        timezone,
+        task: session.task,
+        project: session.project,
+        import_id: importId,
+        import_source: source,
+        import_scope: scope,
+        imported_at: importedAt
+      })));
+
+    if (error) throw error;
+  }
+
+  if (scope === 'streaks') {
+    await rebuildStreak(supabase, userId);
+    await syncAchievements(supabase, userId);
+  }
+  return importId;
+}
@@ -0,0 +1,71 @@
+// Signed per-session tokens, issued by /api/timer/start and required on heartbeats
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+interface TokenPayload {
+  sid: string; // timer_sessions.id
+  uid: string;
+  iat: number;
+  exp: number;
+}
+
+// Covers the final pulse at the planned end and a few retries after it
+const TOKEN_GRACE_MS = 10 * 60 * 1000;
+
+// A dedicated secret, so rotating it never touches database access
+function getSecret(): string {
+  const secret = process.env.TIMER_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('TIMER_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getSecret()).update(encodedPayload).digest('base64url');
+}
+
+// Valid for the focus time left plus a grace period. A paused session's token
+// can run out while it waits; resuming issues a fresh one.
+export function issueSessionToken(
+  sessionId: string,
+  userId: string,
+  remainingMs: number,
+  now: number = Date.now()
+): string {
+  const payload: TokenPayload = {
+    sid: sessionId,
+    uid: userId,
+    iat: now,
+    exp: now + Math.max(0, remainingMs) + TOKEN_GRACE_MS
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+// Returns the session the token was issued for, or null if it was tampered
+// with or has expired
+export function verifySessionToken(
+  token: unknown,
+  now: number = Date.now()
+): { sessionId: string; userId: string } | null {
+  if (typeof token !== 'string') return null;
+
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload: TokenPayload = JSON.parse(Buffer.from(encoded, 'base64url').toString());
+    if (typeof payload.sid !== 'string' || typeof payload.uid !== 'string') return null;
+    if (typeof payload.exp !== 'number' || now > payload.exp) return null;
+    return { sessionId: payload.sid, userId: payload.uid };
+  } catch {
+    return null;
+  }
+}
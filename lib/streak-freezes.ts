@@ -0,0 +1,72 @@
+// Streak freezes: banked tokens that cover a missed day. Users earn them by
+// keeping a streak going; paid tiers earn them faster and can bank more.
+
+export type SubscriptionTier = 'free' | 'basic' | 'pro' | 'premium';
+
+export interface FreezePolicy {
+  earnEveryDays: number; // one freeze per this many consecutive days
+  maxBanked: number;
+}
+
+export const FREEZE_POLICIES: Record<SubscriptionTier, FreezePolicy> = {
+  free: { earnEveryDays: 7, maxBanked: 1 },
+  basic: { earnEveryDays: 7, maxBanked: 2 },
+  pro: { earnEveryDays: 5, maxBanked: 3 },
+  premium: { earnEveryDays: 3, maxBanked: 5 }
+};
+
+// Lapsed or cancelled subscriptions fall back to the free policy
+const PAID_STATUSES = ['active', 'trialing'];
+
+export function isSubscriptionTier(value: unknown): value is SubscriptionTier {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(FREEZE_POLICIES, value);
+}
+
+// The tier the Stripe webhook wrote to `users`
+export async function getSubscriptionTier(supabase: any, userId: string): Promise<SubscriptionTier> {
+  const { data: user } = await supabase
+    .from('users')
+    .select('subscription_tier, subscription_status')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (!user || !PAID_STATUSES.includes(user.subscription_status)) return 'free';
+  return isSubscriptionTier(user.subscription_tier) ? user.subscription_tier : 'free';
+}
+
+// Freezes banked after reaching `streak` days with `banked` already saved
+export function earnFreezes(streak: number, banked: number, policy: FreezePolicy): number {
+  if (streak > 0 && streak % policy.earnEveryDays === 0) {
+    return Math.min(policy.maxBanked, banked + 1);
+  }
+  return banked;
+}
+
+// Records the days a freeze covered, so the Streaks page can explain them
+export async function recordFreezesUsed(
+  supabase: any,
+  userId: string,
+  days: string[],
+  tier: SubscriptionTier
+) {
+  if (days.length === 0) return;
+  await supabase
+    .from('streak_freezes')
+    .insert(days.map((day) => ({
+      user_id: userId,
+      day,
+      tier,
+      used_at: new Date().toISOString()
+    })));
+}
+
+export async function loadRecentFreezes(supabase: any, userId: string, limit = 10) {
+  const { data: rows } = await supabase
+    .from('streak_freezes')
+    .select('day, used_at')
+    .eq('user_id', userId)
+    .order('day', { ascending: false })
+    .limit(limit);
+
+  return (rows || []).map((row: any) => ({ day: row.day as string, usedAt: row.used_at as string }));
+}
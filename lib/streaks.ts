@@ -0,0 +1,425 @@
+// Streak bookkeeping shared by the timer routes
+
+import {
+  DailyGoal,
+  GoalProgress,
+  getGoalForDay,
+  getGoalProgress,
+  loadGoalHistory,
+  toDailyGoal
+} from './focus-goals';
+import {
+  FREEZE_POLICIES,
+  FreezePolicy,
+  earnFreezes,
+  getSubscriptionTier,
+  loadRecentFreezes,
+  recordFreezesUsed
+} from './streak-freezes';
+import {
+  addDays,
+  dayDiff,
+  getDayStart,
+  getLocalDay,
+  getWeekday,
+  isValidTimeZone,
+  resolveTimezone
+} from './timezones';
+import { FOCUS_SESSIONS_FILTER } from './focus-calendar';
+
+// Sessions that count toward streaks: validated ones plus imports the user
+// chose to count. Use with `.or()`.
+export const STREAK_SESSIONS_FILTER = 'validated.eq.true,import_scope.eq.streaks';
+
+// The zone the user's streak days are currently counted in
+export async function getUserTimezone(supabase: any, userId: string): Promise<string> {
+  const { data: streak } = await supabase
+    .from('streaks')
+    .select('timezone, timezone_auto')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return resolveTimezone(streak, null);
+}
+
+export interface StreakState {
+  currentStreak: number;
+  longestStreak: number;
+  lastCompleted: string | null; // YYYY-MM-DD, local to lastCompletedTimezone
+  lastCompletedTimezone: string | null;
+  freezesAvailable: number;
+}
+
+export const EMPTY_STREAK: StreakState = {
+  currentStreak: 0,
+  longestStreak: 0,
+  lastCompleted: null,
+  lastCompletedTimezone: null,
+  freezesAvailable: 0
+};
+
+export function toStreakState(streak: any): StreakState {
+  if (!streak) return EMPTY_STREAK;
+  return {
+    currentStreak: streak.current_streak || 0,
+    longestStreak: streak.longest_streak || 0,
+    lastCompleted: streak.last_completed || null,
+    lastCompletedTimezone: streak.last_completed_timezone || null,
+    freezesAvailable: streak.freezes_available || 0
+  };
+}
+
+function toStreakColumns(state: StreakState) {
+  return {
+    current_streak: state.currentStreak,
+    longest_streak: state.longestStreak,
+    last_completed: state.lastCompleted,
+    last_completed_timezone: state.lastCompletedTimezone,
+    freezes_available: state.freezesAvailable
+  };
+}
+
+// Counts one completion toward a streak. Days are local to the user; after a
+// timezone change the streak continues if the completion falls on the next day
+// in either the new zone or the one the last day was counted in, and a day that
+// was already counted in the old zone is never counted twice. Missed days are
+// covered by banked freezes when there are enough of them.
+// Returns null when the completion's day was already counted.
+export function advanceStreak(
+  state: StreakState,
+  completedAt: number,
+  timezone: string,
+  policy: FreezePolicy
+): { state: StreakState; frozenDays: string[] } | null {
+  const today = getLocalDay(completedAt, timezone);
+  const last = state.lastCompleted;
+  const previousTimezone = isValidTimeZone(state.lastCompletedTimezone)
+    ? state.lastCompletedTimezone
+    : timezone;
+  const todayBefore = getLocalDay(completedAt, previousTimezone);
+
+  // Days since the last counted one, taking the kinder of the two zones
+  const gap = last ? Math.min(dayDiff(last, today), dayDiff(last, todayBefore)) : Infinity;
+
+  // Already counted: same day, or a day we reached again by flying west
+  if (gap <= 0) {
+    return null;
+  }
+
+  const missed = gap - 1;
+  const dayFields = { lastCompleted: today, lastCompletedTimezone: timezone };
+
+  if (missed <= state.freezesAvailable) {
+    // Continue streak, spending a freeze on each missed day
+    const currentStreak = state.currentStreak + 1;
+    return {
+      state: {
+        currentStreak,
+        longestStreak: Math.max(currentStreak, state.longestStreak),
+        freezesAvailable: earnFreezes(currentStreak, state.freezesAvailable - missed, policy),
+        ...dayFields
+      },
+      frozenDays: Array.from({ length: missed }, (_, i) => addDays(last!, i + 1))
+    };
+  }
+
+  // Reset streak; banked freezes carry over
+  return {
+    state: {
+      currentStreak: 1,
+      longestStreak: Math.max(1, state.longestStreak),
+      freezesAvailable: earnFreezes(1, state.freezesAvailable, policy),
+      ...dayFields
+    },
+    frozenDays: []
+  };
+}
+
+// Focus totals per streak day. A session belongs to the day it ended on, in
+// the zone its completion would be counted in.
+function addToDayTotals(
+  totals: Map<string, { minutes: number; sessions: number }>,
+  streak: any,
+  session: any
+): string {
+  const timezone = resolveTimezone(streak, session.timezone || null);
+  const day = getLocalDay(new Date(session.end_time).getTime(), timezone);
+  const dayTotals = totals.get(day) || { minutes: 0, sessions: 0 };
+  dayTotals.minutes += (session.duration || 0) / 60;
+  dayTotals.sessions += 1;
+  totals.set(day, dayTotals);
+  return day;
+}
+
+// Validated focus on `day` (local to `timezone`) measured against the goal
+async function loadGoalProgress(
+  supabase: any,
+  userId: string,
+  streak: any,
+  day: string,
+  timezone: string
+): Promise<GoalProgress> {
+  // A day from either edge covers sessions recorded in other zones
+  const { data: sessions, error } = await supabase
+    .from('timer_sessions')
+    .select('end_time, duration, timezone')
+    .eq('user_id', userId)
+    .eq('completed', true)
+    .or(STREAK_SESSIONS_FILTER)
+    .gte('end_time', new Date(getDayStart(addDays(day, -1), timezone)).toISOString())
+    .lt('end_time', new Date(getDayStart(addDays(day, 2), timezone)).toISOString());
+
+  if (error) throw error;
+
+  const totals = new Map<string, { minutes: number; sessions: number }>();
+  (sessions || []).forEach((session: any) => addToDayTotals(totals, streak, session));
+  const dayTotals = totals.get(day) || { minutes: 0, sessions: 0 };
+
+  return getGoalProgress(toDailyGoal(streak), day, {
+    minutes: Math.floor(dayTotals.minutes),
+    sessions: dayTotals.sessions
+  });
+}
+
+// Today's progress toward the user's daily goal
+export async function getTodayGoalProgress(
+  supabase: any,
+  userId: string,
+  now: number = Date.now()
+): Promise<{ goal: DailyGoal; progress: GoalProgress }> {
+  const { data: streak } = await supabase
+    .from('streaks')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const timezone = resolveTimezone(streak, null);
+  return {
+    goal: toDailyGoal(streak),
+    progress: await loadGoalProgress(supabase, userId, streak, getLocalDay(now, timezone), timezone)
+  };
+}
+
+// Counts a completion toward the user's stored streak (see advanceStreak),
+// once the day's validated sessions meet the daily goal
+export async function updateStreak(
+  supabase: any,
+  userId: string,
+  completedAt: number = Date.now(),
+  sessionTimezone: string | null = null
+) {
+  // Get user's current streak
+  const { data: streak } = await supabase
+    .from('streaks')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const timezone = resolveTimezone(streak, sessionTimezone);
+  const progress = await loadGoalProgress(
+    supabase,
+    userId,
+    streak,
+    getLocalDay(completedAt, timezone),
+    timezone
+  );
+  if (!progress.met) return;
+
+  const tier = await getSubscriptionTier(supabase, userId);
+  const advanced = advanceStreak(toStreakState(streak), completedAt, timezone, FREEZE_POLICIES[tier]);
+  if (!advanced) return;
+
+  await recordFreezesUsed(supabase, userId, advanced.frozenDays, tier);
+
+  const columns = {
+    ...toStreakColumns(advanced.state),
+    timezone: streak?.timezone_auto === false ? streak.timezone : timezone
+  };
+
+  if (!streak) {
+    // Create new streak
+    await supabase
+      .from('streaks')
+      .insert({ user_id: userId, ...columns });
+  } else {
+    await supabase
+      .from('streaks')
+      .update(columns)
+      .eq('user_id', userId);
+  }
+}
+
+export interface StreakRebuild {
+  userId: string;
+  changed: boolean;
+  before: StreakState;
+  after: StreakState;
+  freezesAdded: string[];
+  freezesRemoved: string[];
+}
+
+// Recomputes a user's streak from the sessions that count toward it, replaying them
+// through the daily goal and advanceStreak in completion order. Deterministic, so running it
+// again without new sessions changes nothing.
+export async function rebuildStreak(supabase: any, userId: string): Promise<StreakRebuild> {
+  const { data: streak } = await supabase
+    .from('streaks')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const { data: sessions, error } = await supabase
+    .from('timer_sessions')
+    .select('id, end_time, duration, timezone')
+    .eq('user_id', userId)
+    .eq('completed', true)
+    .or(STREAK_SESSIONS_FILTER)
+    .not('end_time', 'is', null)
+    .order('end_time', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+
+  const tier = await getSubscriptionTier(supabase, userId);
+  const policy = FREEZE_POLICIES[tier];
+
+  const goalHistory = await loadGoalHistory(supabase, userId);
+  const totals = new Map<string, { minutes: number; sessions: number }>();
+
+  let state = EMPTY_STREAK;
+  const frozenDays = new Set<string>();
+  (sessions || []).forEach((session: any) => {
+    // A day counts from the session that meets its goal
+    const day = addToDayTotals(totals, streak, session);
+    const dayTotals = totals.get(day)!;
+    const progress = getGoalProgress(getGoalForDay(goalHistory, day), day, {
+      minutes: Math.floor(dayTotals.minutes),
+      sessions: dayTotals.sessions
+    });
+    if (!progress.met) return;
+
+    const timezone = resolveTimezone(streak, session.timezone || null);
+    const advanced = advanceStreak(state, new Date(session.end_time).getTime(), timezone, policy);
+    if (advanced) {
+      state = advanced.state;
+      advanced.frozenDays.forEach((day) => frozenDays.add(day));
+    }
+  });
+
+  const before = toStreakState(streak);
+  const streakChanged = (Object.keys(state) as (keyof StreakState)[])
+    .some((key) => state[key] !== before[key]);
+
+  const { data: freezeRows } = await supabase
+    .from('streak_freezes')
+    .select('day')
+    .eq('user_id', userId);
+  const recorded = new Set<string>((freezeRows || []).map((row: any) => row.day));
+  const freezesAdded = Array.from(frozenDays).filter((day) => !recorded.has(day)).sort();
+  const freezesRemoved = Array.from(recorded).filter((day) => !frozenDays.has(day)).sort();
+
+  if (streakChanged) {
+    const { error: writeError } = await supabase
+      .from('streaks')
+      .upsert({ user_id: userId, ...toStreakColumns(state) }, { onConflict: 'user_id' });
+    if (writeError) throw writeError;
+  }
+  if (freezesRemoved.length > 0) {
+    await supabase
+      .from('streak_freezes')
+      .delete()
+      .eq('user_id', userId)
+      .in('day', freezesRemoved);
+  }
+  await recordFreezesUsed(supabase, userId, freezesAdded, tier);
+
+  return {
+    userId,
+    changed: streakChanged || freezesAdded.length > 0 || freezesRemoved.length > 0,
+    before,
+    after: state,
+    freezesAdded,
+    freezesRemoved
+  };
+}
+
+export interface StreakSummary {
+  currentStreak: number;
+  longestStreak: number;
+  lastCompleted: string | null; // YYYY-MM-DD
+  totalSessions: number;
+  thisWeek: number;
+  thisMonth: number;
+  timezone: string; // IANA zone streak days are counted in
+  timezoneAuto: boolean; // follows the device the user focuses on
+  freezesAvailable: number;
+  maxFreezes: number;
+  freezeEveryDays: number;
+  recentFreezes: { day: string; usedAt: string }[];
+  goal: DailyGoal;
+  today: GoalProgress;
+}
+
+// Streak counters plus validated session counts for the Streaks page
+export async function getStreakSummary(
+  supabase: any,
+  userId: string,
+  now: number = Date.now()
+): Promise<StreakSummary> {
+  const { data: streak } = await supabase
+    .from('streaks')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const timezone = resolveTimezone(streak, null);
+  const today = getLocalDay(now, timezone);
+
+  // A streak lapses once more days have been missed than freezes can cover.
+  // As in updateStreak, the zone the last day was counted in also counts.
+  const lastCompleted: string | null = streak?.last_completed || null;
+  const previousTimezone = isValidTimeZone(streak?.last_completed_timezone)
+    ? streak.last_completed_timezone
+    : timezone;
+  const freezesAvailable: number = streak?.freezes_available || 0;
+  const alive = lastCompleted !== null && Math.min(
+    dayDiff(lastCompleted, today),
+    dayDiff(lastCompleted, getLocalDay(now, previousTimezone))
+  ) - 1 <= freezesAvailable;
+
+  const policy = FREEZE_POLICIES[await getSubscriptionTier(supabase, userId)];
+
+  const weekStart = getDayStart(addDays(today, -getWeekday(today)), timezone);
+  const monthStart = getDayStart(`${today.slice(0, 8)}01`, timezone);
+
+  const countSessions = async (since?: number) => {
+    let query = supabase
+      .from('timer_sessions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('completed', true)
+      .or(FOCUS_SESSIONS_FILTER);
+    if (since !== undefined) {
+      query = query.gte('end_time', new Date(since).toISOString());
+    }
+    const { count, error } = await query;
+    if (error) throw error;
+    return count || 0;
+  };
+
+  return {
+    currentStreak: alive ? streak.current_streak : 0,
+    longestStreak: streak?.longest_streak || 0,
+    lastCompleted,
+    totalSessions: await countSessions(),
+    thisWeek: await countSessions(weekStart),
+    thisMonth: await countSessions(monthStart),
+    timezone,
+    timezoneAuto: streak?.timezone_auto ?? true,
+    freezesAvailable,
+    maxFreezes: policy.maxBanked,
+    freezeEveryDays: policy.earnEveryDays,
+    recentFreezes: await loadRecentFreezes(supabase, userId),
+    goal: toDailyGoal(streak),
+    today: await loadGoalProgress(supabase, userId, streak, today, timezone)
+  };
+}
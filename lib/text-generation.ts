@@ -0,0 +1,145 @@
+// Text generation behind a provider interface, configured from the environment:
+//
+//   TEXT_PROVIDER     openai | openai-compatible | template
+//                     (default: openai when OPENAI_API_KEY is set, else template)
+//   TEXT_MODEL        model name (default gpt-4-turbo-preview)
+//   TEXT_TEMPERATURE  overrides each request's temperature
+//   TEXT_BASE_URL     endpoint for openai-compatible, e.g. a self-hosted model
+//   TEXT_API_KEY      key for openai-compatible (default OPENAI_API_KEY)
+
+import OpenAI from 'openai';
+
+export interface GenerationRequest {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  presencePenalty?: number;
+  templates: string[]; // candidates for the template provider and for fallbacks
+  seed: string; // picks the same template for the same seed
+}
+
+export interface TextProvider {
+  name: string;
+  generate(request: GenerationRequest): Promise<string | null>;
+}
+
+export interface GeneratedText {
+  text: string;
+  provider: string;
+  fallback: boolean; // true unless a model wrote it
+}
+
+const DEFAULT_MODEL = 'gpt-4-turbo-preview';
+
+// Stable 32-bit FNV-1a hash, so a seed always maps to the same template
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function pickTemplate(templates: string[], seed: string): string {
+  return templates[hashSeed(seed) % templates.length];
+}
+
+// Deterministic and offline: picks one of the request's templates by seed
+export function createTemplateProvider(): TextProvider {
+  return {
+    name: 'template',
+    generate: async (request) => pickTemplate(request.templates, request.seed)
+  };
+}
+
+// OpenAI, or any server speaking its chat completions API when `baseURL` is set
+export function createOpenAIProvider(options: {
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  name?: string;
+}): TextProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  return {
+    name: options.name || 'openai',
+    generate: async (request) => {
+      const completion = await client.chat.completions.create({
+        model: options.model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt }
+        ],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        presence_penalty: request.presencePenalty
+      });
+      return completion.choices[0]?.message.content?.trim() || null;
+    }
+  };
+}
+
+function createConfiguredProvider(): TextProvider {
+  const model = process.env.TEXT_MODEL || DEFAULT_MODEL;
+  const provider = process.env.TEXT_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'template');
+
+  switch (provider) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        console.error('TEXT_PROVIDER is openai but OPENAI_API_KEY is not set; using templates');
+        break;
+      }
+      return createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY, model });
+    case 'openai-compatible':
+      if (!process.env.TEXT_BASE_URL) {
+        console.error('TEXT_PROVIDER is openai-compatible but TEXT_BASE_URL is not set; using templates');
+        break;
+      }
+      return createOpenAIProvider({
+        // Self-hosted servers often ignore the key, but the client requires one
+        apiKey: process.env.TEXT_API_KEY || process.env.OPENAI_API_KEY || 'unused',
+        baseURL: process.env.TEXT_BASE_URL,
+        model,
+        name: 'openai-compatible'
+      });
+    case 'template':
+      break;
+    default:
+      console.error(`Unknown TEXT_PROVIDER "${provider}"; using templates`);
+  }
+  return createTemplateProvider();
+}
+
+let provider: TextProvider | null = null;
+
+export function getTextProvider(): TextProvider {
+  if (!provider) provider = createConfiguredProvider();
+  return provider;
+}
+
+// Replaces the configured provider, e.g. with a fake in tests. Pass null to
+// go back to the environment's configuration.
+export function setTextProvider(replacement: TextProvider | null) {
+  provider = replacement;
+}
+
+// Never throws: if the provider fails or returns nothing, a template stands in
+export async function generateText(request: GenerationRequest): Promise<GeneratedText> {
+  const active = getTextProvider();
+  const configured = Number(process.env.TEXT_TEMPERATURE);
+  const temperature = process.env.TEXT_TEMPERATURE && Number.isFinite(configured)
+    ? configured
+    : request.temperature;
+
+  try {
+    const text = await active.generate({ ...request, temperature });
+    if (text) {
+      return { text, provider: active.name, fallback: active.name === 'template' };
+    }
+  } catch (error) {
+    console.error(`Text generation failed (${active.name}):`, error);
+  }
+
+  return { text: pickTemplate(request.templates, request.seed), provider: 'template', fallback: true };
+}
@@ -0,0 +1,133 @@
+// Deterministic timer state machine shared by the page, service worker and API.
+// State is a pure function of timestamped events, so any session can be replayed.
+// All times are milliseconds on the server clock.
+//
+// Keep this module free of imports: scripts/build-sw-lib.js compiles it into
+// public/timer-lib.js for the service worker.
+
+export type TimerStatus = 'idle' | 'running' | 'paused' | 'completed' | 'abandoned';
+
+export type TimerEvent =
+  | { type: 'start'; at: number; durationMs: number }
+  | { type: 'pause'; at: number }
+  | { type: 'resume'; at: number }
+  | { type: 'complete'; at: number }
+  | { type: 'abandon'; at: number };
+
+export interface TimerState {
+  status: TimerStatus;
+  durationMs: number;
+  startedAt: number | null;
+  pausedAt: number | null;
+  totalPausedMs: number;
+  endedAt: number | null;
+}
+
+export const IDLE_TIMER: TimerState = {
+  status: 'idle',
+  durationMs: 0,
+  startedAt: null,
+  pausedAt: null,
+  totalPausedMs: 0,
+  endedAt: null
+};
+
+// Server time at which a running timer reaches its duration
+export function getPlannedEnd(state: TimerState): number | null {
+  if (state.startedAt === null) return null;
+  return state.startedAt + state.durationMs + state.totalPausedMs;
+}
+
+// Milliseconds of focus so far, excluding pauses and capped at the duration
+export function getElapsed(state: TimerState, now: number): number {
+  if (state.startedAt === null) return 0;
+
+  let end: number;
+  switch (state.status) {
+    case 'running':
+      end = now;
+      break;
+    case 'paused':
+      end = state.pausedAt!;
+      break;
+    default:
+      end = state.endedAt!;
+  }
+
+  const elapsed = end - state.startedAt - state.totalPausedMs;
+  return Math.min(state.durationMs, Math.max(0, elapsed));
+}
+
+export function getRemaining(state: TimerState, now: number): number {
+  return state.durationMs - getElapsed(state, now);
+}
+
+// Completes a running timer whose planned end has passed
+export function settleTimer(state: TimerState, now: number): TimerState {
+  const plannedEnd = getPlannedEnd(state);
+  if (state.status !== 'running' || plannedEnd === null || now < plannedEnd) {
+    return state;
+  }
+  return { ...state, status: 'completed', endedAt: plannedEnd };
+}
+
+// Applies one event; events that don't fit the current state are ignored
+export function applyTimerEvent(state: TimerState, event: TimerEvent): TimerState {
+  if (event.type === 'start') {
+    if (state.status !== 'idle' || event.durationMs <= 0) return state;
+    return {
+      ...IDLE_TIMER,
+      status: 'running',
+      durationMs: event.durationMs,
+      startedAt: event.at
+    };
+  }
+
+  // Time passes before the event: the timer may have finished already
+  const current = settleTimer(state, event.at);
+
+  switch (event.type) {
+    case 'pause':
+      if (current.status !== 'running' || event.at < current.startedAt!) return current;
+      return { ...current, status: 'paused', pausedAt: event.at };
+
+    case 'resume':
+      if (current.status !== 'paused' || event.at < current.pausedAt!) return current;
+      return {
+        ...current,
+        status: 'running',
+        pausedAt: null,
+        totalPausedMs: current.totalPausedMs + (event.at - current.pausedAt!)
+      };
+
+    case 'complete':
+      // Completion only counts once the planned end has passed, which settleTimer handles
+      return current;
+
+    case 'abandon':
+      if (current.status === 'running') {
+        return { ...current, status: 'abandoned', endedAt: event.at };
+      }
+      if (current.status === 'paused') {
+        return {
+          ...current,
+          status: 'abandoned',
+          pausedAt: null,
+          totalPausedMs: current.totalPausedMs + (event.at - current.pausedAt!),
+          endedAt: event.at
+        };
+      }
+      return current;
+  }
+}
+
+// Re-derives a timer from its event log, in timestamp order
+export function replayTimerEvents(events: TimerEvent[], now?: number): TimerState {
+  const ordered = events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.at - b.event.at || a.index - b.index)
+    .map(({ event }) => event);
+
+  const state = ordered.reduce(applyTimerEvent, IDLE_TIMER);
+  return now === undefined ? state : settleTimer(state, now);
+}
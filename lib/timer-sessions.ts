@@ -0,0 +1,325 @@
+import { updateStreak } from './streaks';
+import { syncAchievements, UnlockedAchievement } from './achievements';
+import { AnomalyReport, HeartbeatSample, scoreSession } from './anomaly-engine';
+import {
+  TimerEvent,
+  TimerState,
+  applyTimerEvent,
+  getElapsed,
+  replayTimerEvents,
+  settleTimer
+} from './timer-engine';
+
+const MAX_NOTE_LENGTH = 200;
+
+// Timer engine state for a `timer_sessions` row
+export function getSessionTimer(timerSession: any): TimerState {
+  const startedAt = new Date(timerSession.start_time).getTime();
+  const base: TimerState = {
+    status: 'running',
+    durationMs: timerSession.duration * 1000,
+    startedAt,
+    pausedAt: null,
+    totalPausedMs: timerSession.total_paused || 0,
+    endedAt: null
+  };
+
+  if (timerSession.abandoned_at) {
+    return { ...base, status: 'abandoned', endedAt: new Date(timerSession.abandoned_at).getTime() };
+  }
+  if (timerSession.completed) {
+    return { ...base, status: 'completed', endedAt: new Date(timerSession.end_time).getTime() };
+  }
+  if (timerSession.paused_at) {
+    return { ...base, status: 'paused', pausedAt: new Date(timerSession.paused_at).getTime() };
+  }
+  return base;
+}
+
+// Milliseconds of focus time, excluding recorded pauses
+export function getActiveElapsed(timerSession: any, now: number = Date.now()): number {
+  return getElapsed(getSessionTimer(timerSession), now);
+}
+
+// Appends to the session's event log (`timer_events`)
+export async function recordTimerEvent(
+  supabase: any,
+  sessionId: string,
+  userId: string,
+  event: TimerEvent
+) {
+  await supabase
+    .from('timer_events')
+    .insert({
+      session_id: sessionId,
+      user_id: userId,
+      type: event.type,
+      at: new Date(event.at).toISOString(),
+      duration_ms: event.type === 'start' ? event.durationMs : null
+    });
+}
+
+export async function loadTimerEvents(supabase: any, sessionId: string): Promise<TimerEvent[]> {
+  const { data: rows } = await supabase
+    .from('timer_events')
+    .select('type, at, duration_ms')
+    .eq('session_id', sessionId)
+    .order('at', { ascending: true });
+
+  return (rows || []).map((row: any) => {
+    const at = new Date(row.at).getTime();
+    return row.type === 'start'
+      ? { type: 'start', at, durationMs: row.duration_ms }
+      : { type: row.type, at };
+  });
+}
+
+// Event log for a session; rows from before the log existed get an equivalent one
+export async function getSessionEvents(supabase: any, timerSession: any): Promise<TimerEvent[]> {
+  const events = await loadTimerEvents(supabase, timerSession.id);
+  if (events.length > 0) {
+    return events;
+  }
+
+  const timer = getSessionTimer(timerSession);
+  const startedAt = timer.startedAt!;
+  const synthesized: TimerEvent[] = [{ type: 'start', at: startedAt, durationMs: timer.durationMs }];
+
+  // Earlier pauses only matter in total, so one pause of that length replays the same
+  if (timer.totalPausedMs > 0) {
+    synthesized.push(
+      { type: 'pause', at: startedAt },
+      { type: 'resume', at: startedAt + timer.totalPausedMs }
+    );
+  }
+  if (timer.status === 'paused') {
+    synthesized.push({ type: 'pause', at: timer.pausedAt! });
+  }
+  return synthesized;
+}
+
+// The user's running or paused focus session, if any. Sessions whose planned
+// end has passed are left for the heartbeat or background sync to complete.
+export async function findActiveSession(supabase: any, userId: string, now: number = Date.now()) {
+  const { data: rows } = await supabase
+    .from('timer_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('completed', false)
+    .is('abandoned_at', null)
+    .order('start_time', { ascending: false });
+
+  return (rows || []).find((row: any) => {
+    const status = settleTimer(getSessionTimer(row), now).status;
+    return status === 'running' || status === 'paused';
+  }) || null;
+}
+
+// True when another device has taken the session over
+export function isOwnedByOtherDevice(timerSession: any, deviceId: unknown): boolean {
+  return !!timerSession.device_id && !!deviceId && timerSession.device_id !== deviceId;
+}
+
+// What other devices need to mirror a session's countdown
+export async function describeSession(supabase: any, timerSession: any) {
+  return {
+    sessionId: timerSession.id,
+    deviceId: timerSession.device_id || null,
+    deviceName: timerSession.device_name || null,
+    startTime: new Date(timerSession.start_time).getTime(),
+    duration: timerSession.duration,
+    events: await getSessionEvents(supabase, timerSession),
+    task: timerSession.task || null,
+    project: timerSession.project || null,
+    cycleId: timerSession.cycle_id || null,
+    cycleRound: timerSession.cycle_round || null,
+    cycleConfig: timerSession.cycle_config || null,
+    heartbeatSeq: timerSession.heartbeat_seq || 0 // the next owner continues from here
+  };
+}
+
+// Ends a running or paused session early. Returns the focus time at
+// abandonment, or null if the session was already closed.
+export async function abandonSession(
+  supabase: any,
+  timerSession: any,
+  userId: string,
+  reason: string,
+  note: unknown,
+  now: number = Date.now()
+): Promise<number | null> {
+  const abandoned = applyTimerEvent(getSessionTimer(timerSession), { type: 'abandon', at: now });
+  if (abandoned.status !== 'abandoned') {
+    return null;
+  }
+
+  const elapsed = getElapsed(abandoned, now);
+  const abandonedAt = new Date(now).toISOString();
+
+  const { data: updated } = await supabase
+    .from('timer_sessions')
+    .update({
+      abandoned_at: abandonedAt,
+      abandon_reason: reason,
+      abandon_note: typeof note === 'string' ? note.trim().slice(0, MAX_NOTE_LENGTH) || null : null,
+      abandoned_elapsed: elapsed,
+      end_time: abandonedAt,
+      paused_at: null,
+      total_paused: abandoned.totalPausedMs
+    })
+    .eq('id', timerSession.id)
+    .eq('completed', false)
+    .is('abandoned_at', null)
+    .select('id');
+
+  if (!updated || updated.length === 0) {
+    return null;
+  }
+
+  // Close an open pause segment
+  if (timerSession.paused_at) {
+    await supabase
+      .from('timer_pauses')
+      .update({
+        resumed_at: abandonedAt,
+        duration: now - new Date(timerSession.paused_at).getTime()
+      })
+      .eq('session_id', timerSession.id)
+      .is('resumed_at', null);
+  }
+
+  await recordTimerEvent(supabase, timerSession.id, userId, { type: 'abandon', at: now });
+  return elapsed;
+}
+
+// Re-derives a session from its event log, falling back to the row for old sessions
+export async function replaySession(supabase: any, timerSession: any, now?: number): Promise<TimerState> {
+  const events = await loadTimerEvents(supabase, timerSession.id);
+  if (events.length === 0) {
+    return getSessionTimer(timerSession);
+  }
+  return replayTimerEvents(events, now);
+}
+
+// Appends to the session's heartbeat history (`timer_heartbeats`)
+export async function recordHeartbeat(
+  supabase: any,
+  sessionId: string,
+  userId: string,
+  heartbeat: HeartbeatSample & { clientTime: number | null; seq: number; nonce: string }
+) {
+  await supabase
+    .from('timer_heartbeats')
+    .insert({
+      session_id: sessionId,
+      user_id: userId,
+      at: new Date(heartbeat.at).toISOString(),
+      client_time: heartbeat.clientTime === null ? null : new Date(heartbeat.clientTime).toISOString(),
+      elapsed: Math.round(heartbeat.elapsed),
+      drift: Math.round(heartbeat.drift),
+      seq: heartbeat.seq,
+      nonce: heartbeat.nonce
+    });
+}
+
+export async function loadHeartbeats(supabase: any, sessionId: string): Promise<HeartbeatSample[]> {
+  const { data: rows } = await supabase
+    .from('timer_heartbeats')
+    .select('at, elapsed, drift')
+    .eq('session_id', sessionId)
+    .order('at', { ascending: true });
+
+  return (rows || []).map((row: any) => ({
+    at: new Date(row.at).getTime(),
+    elapsed: row.elapsed,
+    drift: row.drift
+  }));
+}
+
+// Scores a session from its heartbeats, event log and the user's other sessions
+export async function scoreTimerSession(
+  supabase: any,
+  timerSession: any,
+  now: number = Date.now()
+): Promise<AnomalyReport> {
+  const events = await getSessionEvents(supabase, timerSession);
+  const heartbeats = await loadHeartbeats(supabase, timerSession.id);
+
+  const endTime = timerSession.end_time || new Date(now).toISOString();
+  const { data: others } = await supabase
+    .from('timer_sessions')
+    .select('start_time, end_time')
+    .eq('user_id', timerSession.user_id)
+    .eq('completed', true)
+    .eq('validated', true)
+    .is('abandoned_at', null)
+    .neq('id', timerSession.id)
+    .lt('start_time', endTime)
+    .gt('end_time', timerSession.start_time);
+
+  return scoreSession({
+    events,
+    heartbeats,
+    otherSessions: (others || []).map((row: any) => ({
+      start: new Date(row.start_time).getTime(),
+      end: new Date(row.end_time).getTime()
+    })),
+    now
+  });
+}
+
+export interface CompletionResult {
+  report: AnomalyReport;
+  achievements: UnlockedAchievement[]; // newly unlocked by this session
+}
+
+// Marks a session completed, scores it, and updates the streak when the score
+// allows. Only the call that flips `completed` gets a report, so retries are no-ops.
+export async function completeTimer(
+  supabase: any,
+  sessionId: string,
+  userId: string,
+  endTime: Date = new Date()
+): Promise<CompletionResult | null> {
+  const { data: updated } = await supabase
+    .from('timer_sessions')
+    .update({
+      completed: true,
+      end_time: endTime.toISOString()
+    })
+    .eq('id', sessionId)
+    .eq('completed', false)
+    .is('abandoned_at', null)
+    .select('*');
+
+  if (!updated || updated.length === 0) {
+    return null;
+  }
+
+  await recordTimerEvent(supabase, sessionId, userId, { type: 'complete', at: endTime.getTime() });
+
+  const report = await scoreTimerSession(supabase, updated[0]);
+  await supabase
+    .from('timer_sessions')
+    .update({
+      validated: report.counts,
+      suspicious: !report.counts,
+      anomaly_score: report.score,
+      anomaly_reasons: report.reasons
+    })
+    .eq('id', sessionId);
+
+  // Update user's streak
+  let achievements: UnlockedAchievement[] = [];
+  if (report.counts) {
+    await updateStreak(supabase, userId, endTime.getTime(), updated[0].timezone || null);
+
+    // Badges are a bonus; never fail the completion over them
+    try {
+      achievements = (await syncAchievements(supabase, userId)).unlocked;
+    } catch (error) {
+      console.error('Achievement check failed:', error);
+    }
+  }
+  return { report, achievements };
+}
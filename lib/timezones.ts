@@ -0,0 +1,101 @@
+// Calendar days in a user's IANA timezone. Days are 'YYYY-MM-DD' strings so
+// they compare and sort like the `DATE` columns they're stored in.
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    getFormatter(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The timezone a completion's day is counted in: the one detected for the
+// session when the user follows their device, otherwise the one they set
+export function resolveTimezone(streak: any, sessionTimezone: string | null): string {
+  const auto = streak?.timezone_auto ?? true;
+  if (auto && isValidTimeZone(sessionTimezone)) return sessionTimezone;
+  if (isValidTimeZone(streak?.timezone)) return streak.timezone;
+  return DEFAULT_TIMEZONE;
+}
+
+// Wall-clock fields of `time` in `timeZone`
+function getLocalParts(time: number, timeZone: string) {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(time).forEach(({ type, value }) => {
+    if (type !== 'literal') parts[type] = Number(value);
+  });
+  return parts;
+}
+
+export function getLocalDay(time: number, timeZone: string): string {
+  const { year, month, day } = getLocalParts(time, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// 0-23 on the wall clock in `timeZone`
+export function getLocalHour(time: number, timeZone: string): number {
+  return getLocalParts(time, timeZone).hour;
+}
+
+export function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+// 0 = Monday ... 6 = Sunday
+export function getWeekday(day: string): number {
+  return (new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+// Milliseconds to add to UTC to get wall-clock time in `timeZone`
+function getOffset(time: number, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getLocalParts(time, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClock - (time - (time % 1000));
+}
+
+// The instant the wall clock in `timeZone` reads `day` plus `ms`
+export function getLocalTime(day: string, ms: number, timeZone: string): number {
+  const wallClock = Date.parse(`${day}T00:00:00Z`) + ms;
+  const offset = getOffset(wallClock, timeZone);
+  const guess = wallClock - offset;
+
+  // The offset can differ across a DST change between the two instants
+  const corrected = getOffset(guess, timeZone);
+  return corrected === offset ? guess : wallClock - corrected;
+}
+
+// The instant `day` begins in `timeZone`
+export function getDayStart(day: string, timeZone: string): number {
+  return getLocalTime(day, 0, timeZone);
+}
+
+// Whole days from `from` to `to`
+export function dayDiff(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
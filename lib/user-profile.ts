@@ -0,0 +1,197 @@
+// Per-user profile and preferences: mantra personalization, timer presets and
+// notifications. The timezone stays on the streak row, where days are counted.
+
+import { DEFAULT_TIMEZONE, isValidTimeZone } from './timezones';
+
+export type MotivationStyle = 'encouraging' | 'tough love' | 'calm' | 'playful';
+
+export const MOTIVATION_STYLES: MotivationStyle[] = ['encouraging', 'tough love', 'calm', 'playful'];
+
+export interface NotificationPreferences {
+  sessionComplete: boolean;
+  breakOver: boolean;
+  achievements: boolean;
+  sound: boolean;
+}
+
+export interface UserProfile {
+  focusArea: string;
+  motivationStyle: MotivationStyle;
+  defaultDuration: number; // minutes
+  timerPresets: number[]; // minutes, one button each on the timer
+  notifications: NotificationPreferences;
+  timezone: string;
+  timezoneAuto: boolean;
+}
+
+export type ProfileUpdate = Partial<UserProfile>;
+
+export const DEFAULT_NOTIFICATIONS: NotificationPreferences = {
+  sessionComplete: true,
+  breakOver: true,
+  achievements: true,
+  sound: true
+};
+
+export const DEFAULT_PROFILE: UserProfile = {
+  focusArea: 'general productivity',
+  motivationStyle: 'encouraging',
+  defaultDuration: 25,
+  timerPresets: [25, 50],
+  notifications: DEFAULT_NOTIFICATIONS,
+  timezone: DEFAULT_TIMEZONE,
+  timezoneAuto: true
+};
+
+// Durations match what /api/timer/start accepts
+export const PROFILE_LIMITS = {
+  focusAreaLength: 60,
+  minMinutes: 1,
+  maxMinutes: 240,
+  maxPresets: 6
+};
+
+const isMinutes = (value: unknown): value is number =>
+  Number.isInteger(value) &&
+  (value as number) >= PROFILE_LIMITS.minMinutes &&
+  (value as number) <= PROFILE_LIMITS.maxMinutes;
+
+const isMotivationStyle = (value: unknown): value is MotivationStyle =>
+  MOTIVATION_STYLES.includes(value as MotivationStyle);
+
+// Missing or malformed columns fall back to the defaults
+export function toUserProfile(row: any, streak: any): UserProfile {
+  const presets = Array.isArray(row?.timer_presets) ? row.timer_presets.filter(isMinutes) : [];
+  return {
+    focusArea: typeof row?.focus_area === 'string' && row.focus_area.trim()
+      ? row.focus_area
+      : DEFAULT_PROFILE.focusArea,
+    motivationStyle: isMotivationStyle(row?.motivation_style)
+      ? row.motivation_style
+      : DEFAULT_PROFILE.motivationStyle,
+    defaultDuration: isMinutes(row?.default_duration) ? row.default_duration : DEFAULT_PROFILE.defaultDuration,
+    timerPresets: presets.length > 0 ? presets : DEFAULT_PROFILE.timerPresets,
+    notifications: { ...DEFAULT_NOTIFICATIONS, ...(row?.notifications || {}) },
+    timezone: isValidTimeZone(streak?.timezone) ? streak.timezone : DEFAULT_TIMEZONE,
+    timezoneAuto: streak?.timezone_auto ?? true
+  };
+}
+
+// Returns an error message, or null when every field present is usable
+export function validateProfileUpdate(update: any): string | null {
+  if (!update || typeof update !== 'object' || Array.isArray(update)) {
+    return 'Expected a profile object';
+  }
+
+  const known = Object.keys(DEFAULT_PROFILE);
+  const unknown = Object.keys(update).find((field) => !known.includes(field));
+  if (unknown) return `Unknown field ${unknown}`;
+
+  const { minMinutes, maxMinutes } = PROFILE_LIMITS;
+  if ('focusArea' in update) {
+    if (typeof update.focusArea !== 'string' || !update.focusArea.trim()) {
+      return 'Focus area is required';
+    }
+    if (update.focusArea.trim().length > PROFILE_LIMITS.focusAreaLength) {
+      return `Focus area must be at most ${PROFILE_LIMITS.focusAreaLength} characters`;
+    }
+  }
+  if ('motivationStyle' in update && !isMotivationStyle(update.motivationStyle)) {
+    return `Motivation style must be one of: ${MOTIVATION_STYLES.join(', ')}`;
+  }
+  if ('defaultDuration' in update && !isMinutes(update.defaultDuration)) {
+    return `Default duration must be between ${minMinutes} and ${maxMinutes} minutes`;
+  }
+  if ('timerPresets' in update) {
+    const presets = update.timerPresets;
+    if (!Array.isArray(presets) || presets.length === 0 || presets.length > PROFILE_LIMITS.maxPresets) {
+      return `Choose between 1 and ${PROFILE_LIMITS.maxPresets} timer presets`;
+    }
+    if (!presets.every(isMinutes)) {
+      return `Presets must be between ${minMinutes} and ${maxMinutes} minutes`;
+    }
+    if (new Set(presets).size !== presets.length) {
+      return 'Presets must be different lengths';
+    }
+  }
+  if ('notifications' in update) {
+    const notifications = update.notifications;
+    if (!notifications || typeof notifications !== 'object') {
+      return 'Invalid notification preferences';
+    }
+    const invalid = Object.keys(notifications).find(
+      (key) => !(key in DEFAULT_NOTIFICATIONS) || typeof notifications[key] !== 'boolean'
+    );
+    if (invalid) return `Invalid notification preference ${invalid}`;
+  }
+  if ('timezone' in update && !isValidTimeZone(update.timezone)) {
+    return 'Invalid timezone';
+  }
+  if ('timezoneAuto' in update && typeof update.timezoneAuto !== 'boolean') {
+    return 'timezoneAuto must be true or false';
+  }
+  return null;
+}
+
+export async function loadUserProfile(supabase: any, userId: string): Promise<UserProfile> {
+  const [{ data: row }, { data: streak }] = await Promise.all([
+    supabase
+      .from('user_profiles')
+      .select('focus_area, motivation_style, default_duration, timer_presets, notifications')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('streaks')
+      .select('timezone, timezone_auto')
+      .eq('user_id', userId)
+      .maybeSingle()
+  ]);
+  return toUserProfile(row, streak);
+}
+
+// Applies a validated update; fields left out keep their current values
+export async function updateUserProfile(
+  supabase: any,
+  userId: string,
+  update: ProfileUpdate
+): Promise<UserProfile> {
+  const current = await loadUserProfile(supabase, userId);
+
+  const profileFields: Record<string, unknown> = {};
+  if (update.focusArea !== undefined) profileFields.focus_area = update.focusArea.trim();
+  if (update.motivationStyle !== undefined) profileFields.motivation_style = update.motivationStyle;
+  if (update.defaultDuration !== undefined) profileFields.default_duration = update.defaultDuration;
+  if (update.timerPresets !== undefined) {
+    profileFields.timer_presets = update.timerPresets.slice().sort((a, b) => a - b);
+  }
+  if (update.notifications !== undefined) {
+    profileFields.notifications = { ...current.notifications, ...update.notifications };
+  }
+
+  if (Object.keys(profileFields).length > 0) {
+    const { error } = await supabase
+      .from('user_profiles')
+      .upsert({
+        user_id: userId,
+        ...profileFields,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  }
+
+  // Same rules as PATCH /api/streaks: the day already counted keeps its zone
+  if (update.timezone !== undefined || update.timezoneAuto !== undefined) {
+    const { error } = await supabase
+      .from('streaks')
+      .upsert({
+        user_id: userId,
+        timezone: update.timezone ?? current.timezone,
+        timezone_auto: update.timezoneAuto ?? current.timezoneAuto
+      }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  }
+
+  return loadUserProfile(supabase, userId);
+}
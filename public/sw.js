@@ -5,6 +5,9 @@ const CACHE_NAME = 'focus-timer-v1';
 const TIMER_DB = 'TimerDatabase';
 const TIMER_STORE = 'activeTimers';
 
+// Shared timer engine and Pomodoro helpers (built from lib/ by scripts/build-sw-lib.js)
+importScripts('/timer-lib.js');
+
 // Cache assets for offline use
 self.addEventListener('install', (event) => {
   event.waitUntil(
@@ -13,6 +16,7 @@ self.addEventListener('install', (event) => {
         '/',
         '/offline.html',
         '/manifest.json',
+        '/timer-lib.js',
         '/icon-192.png',
         '/icon-512.png'
       ]);
@@ -78,6 +82,15 @@ function openDB() {
   });
 }
 
+// Resolve once an IndexedDB transaction has committed
+function transactionDone(transaction) {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
 // Save timer state
 async function saveTimerState(timerData) {
   const db = await openDB();
@@ -86,15 +99,58 @@ async function saveTimerState(timerData) {
 
   const timerRecord = {
     id: 'current',
-    startTime: timerData.startTime,
-    duration: timerData.duration,
+    sessionId: timerData.sessionId,
+    events: timerData.events || [],
     serverTime: timerData.serverTime,
+    clockOffset: timerData.clockOffset || 0,
+    cycle: timerData.cycle || null,
+    cycleId: timerData.cycleId || null,
+    task: timerData.task || null,
+    project: timerData.project || null,
+    deviceId: timerData.deviceId || null,
+    deviceName: timerData.deviceName || null,
+    token: timerData.token || null,
+    heartbeatSeq: timerData.heartbeatSeq || 0,
+    notifications: timerData.notifications || null, // the user's Settings choices
     userId: timerData.userId,
     lastHeartbeat: Date.now()
   };
 
   store.put(timerRecord);
-  return transaction.complete;
+  return transactionDone(transaction);
+}
+
+// Append an event to the stored timer's log, with any other changes
+async function appendTimerEvent(event, changes = {}) {
+  const state = await getTimerState();
+  if (!state) return null;
+
+  const updated = { ...state, ...changes, events: state.events.concat(event) };
+  const db = await openDB();
+  const transaction = db.transaction([TIMER_STORE], 'readwrite');
+  transaction.objectStore(TIMER_STORE).put(updated);
+  await transactionDone(transaction);
+  return updated;
+}
+
+// Claim the next heartbeat sequence number; read and write share one
+// transaction so concurrent pulses never reuse a number
+async function nextHeartbeatSeq() {
+  const db = await openDB();
+  const transaction = db.transaction([TIMER_STORE], 'readwrite');
+  const store = transaction.objectStore(TIMER_STORE);
+  let seq = null;
+
+  const request = store.get('current');
+  request.onsuccess = () => {
+    const state = request.result;
+    if (!state) return;
+    seq = (state.heartbeatSeq || 0) + 1;
+    store.put({ ...state, heartbeatSeq: seq });
+  };
+
+  await transactionDone(transaction);
+  return seq;
 }
 
 // Get timer state
@@ -102,7 +158,11 @@ async function getTimerState() {
   const db = await openDB();
   const transaction = db.transaction([TIMER_STORE], 'readonly');
   const store = transaction.objectStore(TIMER_STORE);
-  return store.get('current');
+  return new Promise((resolve, reject) => {
+    const request = store.get('current');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
 }
 
 // Handle messages from main thread
@@ -112,9 +172,24 @@ self.addEventListener('message', async (event) => {
   switch (type) {
     case 'START_TIMER':
       await saveTimerState(data);
-      startHeartbeat(data.userId);
+      startHeartbeat();
       break;
 
+    case 'PAUSE_TIMER':
+      // Keep the session, just stop pulsing until it resumes
+      stopHeartbeat();
+      await appendTimerEvent(data.event);
+      break;
+
+    case 'RESUME_TIMER': {
+      // Resuming hands out a fresh heartbeat token
+      const resumed = await appendTimerEvent(data.event, data.token ? { token: data.token } : {});
+      if (resumed) {
+        startHeartbeat();
+      }
+      break;
+    }
+
     case 'STOP_TIMER':
       await clearTimerState();
       stopHeartbeat();
@@ -126,7 +201,11 @@ self.addEventListener('message', async (event) => {
       break;
 
     case 'HEARTBEAT':
-      await sendHeartbeat(data.userId);
+      await sendHeartbeat();
+      break;
+
+    case 'ADVANCE_CYCLE':
+      await advanceCycle(data.sessionId);
       break;
   }
 });
@@ -137,20 +216,42 @@ async function clearTimerState() {
   const transaction = db.transaction([TIMER_STORE], 'readwrite');
   const store = transaction.objectStore(TIMER_STORE);
   store.delete('current');
-  return transaction.complete;
+  return transactionDone(transaction);
+}
+
+// Current time on the server's clock, using the offset measured at start
+function serverNow(state) {
+  return Date.now() + (state.clockOffset || 0);
+}
+
+// Timer engine state, replayed from the stored event log
+function currentTimer(state) {
+  return TimerEngine.replayTimerEvents(state.events, serverNow(state));
 }
 
 // Heartbeat to validate timer with server
 let heartbeatInterval;
+let phaseEndTimeout;
+
+function startHeartbeat() {
+  stopHeartbeat();
 
-function startHeartbeat(userId) {
   // Send heartbeat every 30 seconds
   heartbeatInterval = setInterval(() => {
-    sendHeartbeat(userId);
+    checkTimer();
   }, 30000);
 
+  // Wake up exactly when the current phase ends
+  getTimerState().then((state) => {
+    const timer = state && currentTimer(state);
+    if (timer && timer.status === 'running') {
+      const remaining = TimerEngine.getRemaining(timer, serverNow(state));
+      phaseEndTimeout = setTimeout(() => checkTimer(), remaining);
+    }
+  });
+
   // Send initial heartbeat
-  sendHeartbeat(userId);
+  checkTimer();
 }
 
 function stopHeartbeat() {
@@ -158,30 +259,206 @@ function stopHeartbeat() {
     clearInterval(heartbeatInterval);
     heartbeatInterval = null;
   }
+  if (phaseEndTimeout) {
+    clearTimeout(phaseEndTimeout);
+    phaseEndTimeout = null;
+  }
 }
 
-async function sendHeartbeat(userId) {
+// Advance finished cycle phases, otherwise pulse focus sessions
+async function checkTimer() {
   const state = await getTimerState();
-  if (!state) return;
+  const timer = state && currentTimer(state);
+  if (!timer || timer.status === 'paused') return;
+
+  if (state.cycle && timer.status === 'completed') {
+    await advanceCycle(state.sessionId);
+    return;
+  }
+
+  // Breaks aren't server-tracked, so they don't pulse
+  if (!state.cycle || state.cycle.phase === 'work') {
+    await sendHeartbeat();
+  }
+
+  // The final pulse lets the server complete a single session
+  if (timer.status !== 'running') {
+    stopHeartbeat();
+  }
+}
+
+async function sendHeartbeat() {
+  const state = await getTimerState();
+  const timer = state && currentTimer(state);
+  if (!timer || timer.status === 'paused') return;
 
   // Calculate elapsed time
-  const elapsed = Date.now() - state.startTime;
+  const elapsed = TimerEngine.getElapsed(timer, serverNow(state));
+  const seq = await nextHeartbeatSeq();
+  if (seq === null) return;
 
   // Send to server for validation
-  fetch('/api/timer/heartbeat', {
+  return fetch('/api/timer/heartbeat', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
-      userId,
-      sessionId: state.id,
+      token: state.token,
+      seq,
+      nonce: crypto.randomUUID(),
+      deviceId: state.deviceId,
       elapsed,
       clientTime: Date.now()
     })
+  }).then(async (response) => {
+    // Another device took the session over
+    if (response.status === 409) {
+      const { ownerDeviceName } = await response.json();
+      await handleSessionMoved(ownerDeviceName);
+    } else if (response.ok) {
+      const { achievements } = await response.clone().json();
+      await notifyAchievements(achievements, state.notifications);
+    }
+    return response;
   }).catch(error => {
     console.error('Heartbeat failed:', error);
   });
 }
 
+// Only one advance at a time, whether triggered by a page or our own timer
+let advancing = null;
+
+function advanceCycle(fromSessionId) {
+  if (!advancing) {
+    advancing = startNextPhase(fromSessionId).finally(() => {
+      advancing = null;
+    });
+  }
+  return advancing;
+}
+
+async function startNextPhase(fromSessionId) {
+  const state = await getTimerState();
+
+  // Already advanced (or stopped): just let pages catch up
+  if (!state || !state.cycle || state.sessionId !== fromSessionId) {
+    await broadcastTimerState(state);
+    return;
+  }
+
+  // A final pulse lets the server complete the focus session
+  if (state.cycle.phase === 'work') {
+    await sendHeartbeat();
+    // The pulse may have found the session moved to another device
+    if (!(await getTimerState())) return;
+  }
+
+  const next = Pomodoro.getNextPhase(state.cycle);
+  const requestedAt = Date.now();
+
+  try {
+    const response = await fetch('/api/timer/start', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        duration: Pomodoro.getPhaseDuration(next.config, next.phase),
+        phase: next.phase,
+        cycleId: state.cycleId,
+        round: next.round,
+        cycleConfig: next.config,
+        task: state.task,
+        project: state.project,
+        deviceId: state.deviceId,
+        deviceName: state.deviceName,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      })
+    });
+
+    // A session started elsewhere in the meantime; that device owns the user's focus now
+    if (response.status === 409) {
+      const { activeSession } = await response.json();
+      await handleSessionMoved(activeSession && activeSession.deviceName);
+      return;
+    }
+    if (!response.ok) {
+      throw new Error(`Start failed with status ${response.status}`);
+    }
+    const session = await response.json();
+
+    const nextState = {
+      sessionId: session.sessionId,
+      events: [{ type: 'start', at: session.startTime, durationMs: session.duration * 1000 }],
+      serverTime: session.serverTime,
+      clockOffset: session.serverTime - Math.round((requestedAt + Date.now()) / 2),
+      cycle: next,
+      cycleId: state.cycleId,
+      task: state.task,
+      project: state.project,
+      deviceId: state.deviceId,
+      deviceName: state.deviceName,
+      token: session.token,
+      heartbeatSeq: session.heartbeatSeq || 0,
+      notifications: state.notifications,
+      userId: session.userId
+    };
+
+    await saveTimerState(nextState);
+    startHeartbeat();
+    await broadcastTimerState(await getTimerState());
+    await notifyPhaseChange(next, state.notifications);
+  } catch (error) {
+    // The heartbeat interval retries on its next tick
+    console.error('Cycle advance failed, will retry:', error);
+  }
+}
+
+// Stop tracking a session this device no longer owns, and tell open pages
+async function handleSessionMoved(ownerDeviceName) {
+  stopHeartbeat();
+  await clearTimerState();
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windows.forEach((client) => client.postMessage({ type: 'SESSION_MOVED', ownerDeviceName }));
+}
+
+async function broadcastTimerState(state) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windows.forEach((client) => client.postMessage({ type: 'TIMER_ADVANCED', state }));
+}
+
+// Visible pages notify on their own. `notifications` is null for timers
+// started before preferences existed, which notify as before.
+async function notifyPhaseChange(cycle, notifications) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.some((client) => client.visibilityState === 'visible')) return;
+
+  const isBreak = cycle.phase !== 'work';
+  if (notifications && !notifications[isBreak ? 'sessionComplete' : 'breakOver']) return;
+  await self.registration.showNotification(isBreak ? 'Focus Session Complete!' : 'Break Over!', {
+    body: isBreak
+      ? `Time for a ${cycle.phase === 'long_break' ? 'long' : 'short'} break.`
+      : `Round ${cycle.round} starts now.`,
+    icon: '/icon-192.png'
+  });
+}
+
+// Badges unlocked by a completion: open pages show their own toast,
+// otherwise each badge gets a notification
+async function notifyAchievements(achievements, notifications) {
+  if (!achievements || achievements.length === 0) return;
+
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windows.forEach((client) => client.postMessage({ type: 'ACHIEVEMENTS_UNLOCKED', achievements }));
+  if (windows.some((client) => client.visibilityState === 'visible')) return;
+  if (notifications && !notifications.achievements) return;
+
+  await Promise.all(achievements.map((achievement) =>
+    self.registration.showNotification(`${achievement.icon} Badge unlocked!`, {
+      body: achievement.title,
+      icon: '/icon-192.png',
+      tag: `achievement-${achievement.id}`
+    })
+  ));
+}
+
 // Background sync for offline timer completion
 self.addEventListener('sync', async (event) => {
   if (event.tag === 'timer-complete') {
@@ -191,30 +468,42 @@ self.addEventListener('sync', async (event) => {
 
 async function syncTimerCompletion() {
   const state = await getTimerState();
-  if (!state) return;
+
+  // Breaks are never reported as completions
+  if (!state || (state.cycle && state.cycle.phase !== 'work')) return;
 
   // Check if timer is complete
-  const elapsed = Date.now() - state.startTime;
-  if (elapsed >= state.duration) {
-    // Send completion to server
-    try {
-      await fetch('/api/timer/complete', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userId: state.userId,
-          duration: state.duration,
-          startTime: state.startTime,
-          endTime: Date.now()
-        })
-      });
-
-      // Clear timer after successful sync
-      await clearTimerState();
-    } catch (error) {
-      // Will retry on next sync
-      console.error('Sync failed, will retry:', error);
-    }
+  const timer = currentTimer(state);
+  if (timer.status !== 'completed') return;
+
+  // Network errors and 5xx answers reject, so Background Sync retries later
+  const response = await fetch('/api/timer/complete', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      userId: state.userId,
+      sessionId: state.sessionId,
+      duration: timer.durationMs / 1000,
+      startTime: timer.startedAt,
+      endTime: timer.endedAt
+    })
+  });
+
+  if (response.status >= 500) {
+    throw new Error(`Completion sync failed with status ${response.status}`);
+  }
+
+  // A 4xx answer is final: retrying the same request can't succeed
+  if (response.ok) {
+    const { achievements } = await response.json();
+    await notifyAchievements(achievements, state.notifications);
+  } else {
+    console.error(`Completion sync rejected with status ${response.status}`);
+  }
+
+  // Clear timer after a final answer; cycles move on to their break instead
+  if (!state.cycle) {
+    await clearTimerState();
   }
 }
 
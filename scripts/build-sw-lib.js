@@ -0,0 +1,32 @@
+// Compiles the shared timer modules into a classic script the service worker
+// can load with importScripts(). Runs before `next dev` and `next build`.
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const root = path.join(__dirname, '..');
+const output = path.join(root, 'public', 'timer-lib.js');
+
+// [source, global name] - sources must not import anything
+const MODULES = [
+  ['lib/timer-engine.ts', 'TimerEngine'],
+  ['lib/pomodoro.ts', 'Pomodoro']
+];
+
+let bundle = '// Generated by scripts/build-sw-lib.js - do not edit\n';
+
+for (const [source, name] of MODULES) {
+  const code = fs.readFileSync(path.join(root, source), 'utf8');
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2017
+    },
+    fileName: source
+  });
+
+  bundle += `\n// ${source}\nself.${name} = (function (exports) {\n${outputText}\nreturn exports;\n})({});\n`;
+}
+
+fs.writeFileSync(output, bundle);
+console.log(`Built ${path.relative(root, output)}`);